@@ -0,0 +1,112 @@
+import path from 'path';
+import { z } from 'zod';
+import { BitsoApiClient } from './client.js';
+import { ALL_ACCOUNTS, Config, DEFAULT_ACCOUNT, getAccountNames } from './config.js';
+import { UnknownAccountError } from './errors.js';
+import { suggestClosest } from './utils/withdrawal-catalog.js';
+
+/**
+ * The optional `account` parameter every tool accepts.
+ */
+export const AccountNameSchema = z.string().min(1, "Account must not be empty").transform(account => account.trim().toLowerCase());
+
+export const ACCOUNT_PROPERTY = {
+  type: "string",
+  description: "Account profile to use (see list_accounts); defaults to the configured default account",
+} as const;
+
+export const AGGREGATE_ACCOUNT_PROPERTY = {
+  type: "string",
+  description: `Account profile to use (see list_accounts), or '${ALL_ACCOUNTS}' to aggregate across every account; defaults to the configured default account`,
+} as const;
+
+export interface AccountInfo {
+  name: string;
+  default: boolean;
+  has_credentials: boolean;
+  write_operations: boolean;
+}
+
+/**
+ * Keeps each account's status history and cache files apart: the default account uses
+ * the configured file as is, other accounts insert their name before the extension.
+ */
+function accountFile(file: string | undefined, account: string): string | undefined {
+  if (!file || account === DEFAULT_ACCOUNT) {
+    return file;
+  }
+
+  const { dir, name, ext } = path.parse(file);
+  return path.join(dir, `${name}.${account}${ext}`);
+}
+
+/**
+ * Holds one API client per configured account profile, each with its own credentials,
+ * cache, status history and write settings, and resolves the `account` parameter of
+ * tool calls to one.
+ */
+export class AccountRegistry {
+  constructor(private clients: Map<string, BitsoApiClient>, readonly defaultAccount: string) {
+    if (!clients.has(defaultAccount)) {
+      throw new Error(`Default account '${defaultAccount}' is not configured`);
+    }
+  }
+
+  static fromConfig(config: Config): AccountRegistry {
+    const clients = new Map<string, BitsoApiClient>();
+    // Bitso limits public requests per IP, so every account's client shares one public limiter
+    const publicLimiter = BitsoApiClient.createPublicLimiter(config);
+    for (const name of getAccountNames(config)) {
+      const profile = config.accounts[name];
+      clients.set(name, new BitsoApiClient({
+        ...config,
+        apiKey: profile?.apiKey ?? config.apiKey,
+        apiSecret: profile?.apiSecret ?? config.apiSecret,
+        enableWriteOperations: config.enableWriteOperations && (!config.writeAccounts || config.writeAccounts.includes(name)),
+        withdrawalAllowlist: profile?.withdrawalAllowlist ?? config.withdrawalAllowlist,
+        withdrawalMaxAmounts: profile?.withdrawalMaxAmounts ?? config.withdrawalMaxAmounts,
+        statusHistoryFile: accountFile(config.statusHistoryFile, name),
+        cacheFile: accountFile(config.cacheFile, name),
+      }, name, publicLimiter));
+    }
+
+    return new AccountRegistry(clients, config.defaultAccount ?? [...clients.keys()][0]);
+  }
+
+  /**
+   * Gets the client for an account, or the default account's when none is named.
+   *
+   * @throws UnknownAccountError if the account is not configured
+   */
+  get(account?: string): BitsoApiClient {
+    const name = account ?? this.defaultAccount;
+    const client = this.clients.get(name);
+    if (!client) {
+      const suggestions = suggestClosest(name, this.names());
+      throw new UnknownAccountError(suggestions.length > 0
+        ? `Unknown account '${name}'. Did you mean: ${suggestions.join(', ')}?`
+        : `Unknown account '${name}'. Configured accounts: ${this.names().join(', ')}`);
+    }
+    return client;
+  }
+
+  /**
+   * Resolves an account parameter that may be 'all' to the clients it covers.
+   */
+  resolve(account?: string): BitsoApiClient[] {
+    return account === ALL_ACCOUNTS ? [...this.clients.values()] : [this.get(account)];
+  }
+
+  names(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  list(): AccountInfo[] {
+    return [...this.clients.values()].map(client => ({
+      name: client.account,
+      default: client.account === this.defaultAccount,
+      has_credentials: client.hasCredentials(),
+      write_operations: client.writeOperationsEnabled(),
+    }));
+  }
+}
@@ -0,0 +1,217 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Request, RequestHandler } from 'express';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { HttpAuthError } from './errors.js';
+import { createLogger } from './utils/logging.js';
+
+const logToFile = createLogger(import.meta.url, 'AUTH');
+
+/**
+ * Path of the OAuth protected resource metadata (RFC 9728) that 401 challenges point to.
+ */
+export const RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+const INTROSPECTION_CACHE_MS = 60_000;
+const MAX_INTROSPECTION_CACHE_ENTRIES = 1000;
+
+export interface Principal {
+  /** Token label for static tokens; subject, username or client ID for introspected ones */
+  name: string;
+  source: 'static' | 'introspection';
+  clientId?: string;
+  scopes: string[];
+  /** Token expiry in seconds since the epoch, if known */
+  expiresAt?: number;
+}
+
+export interface HttpAuthOptions {
+  /** Static bearer tokens keyed by label */
+  tokens: Record<string, string>;
+  /** RFC 7662 introspection endpoint for tokens that are not static */
+  introspection?: {
+    url: string;
+    clientId?: string;
+    clientSecret?: string;
+    timeoutMs: number;
+  };
+  /** Scopes every introspected token must carry */
+  requiredScopes: string[];
+  /** Authorization server advertised in the protected resource metadata */
+  authorizationServer?: string;
+}
+
+interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  sub?: string;
+  exp?: number;
+}
+
+type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+/**
+ * Resolves bearer tokens to principals: static tokens from configuration first
+ * (compared in constant time), then the introspection endpoint if one is configured.
+ * Active introspection results are cached briefly, never past the token's expiry.
+ */
+export class TokenAuthenticator {
+  private staticTokens: Array<{ label: string; digest: Buffer }>;
+  private introspected = new Map<string, { principal: Principal; expires: number }>();
+
+  constructor(private options: HttpAuthOptions) {
+    this.staticTokens = Object.entries(options.tokens).map(([label, token]) => ({ label, digest: sha256(token) }));
+  }
+
+  get enabled(): boolean {
+    return this.staticTokens.length > 0 || Boolean(this.options.introspection);
+  }
+
+  /**
+   * @throws HttpAuthError for unknown, inactive or expired tokens (401) and missing scopes (403)
+   */
+  async authenticate(token: string): Promise<Principal> {
+    const digest = sha256(token);
+    const match = this.staticTokens.find(entry => crypto.timingSafeEqual(entry.digest, digest));
+    if (match) {
+      return { name: match.label, source: 'static', scopes: [] };
+    }
+
+    if (!this.options.introspection) {
+      throw new HttpAuthError('Invalid bearer token', 401, 'invalid_token');
+    }
+
+    const principal = await this.introspect(token, digest.toString('hex'));
+    const missing = this.options.requiredScopes.filter(scope => !principal.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new HttpAuthError(`Token is missing required scope: ${missing.join(' ')}`, 403, 'insufficient_scope');
+    }
+    return principal;
+  }
+
+  /**
+   * Builds the protected resource metadata document for this server.
+   *
+   * @param resource - Absolute URL of the MCP endpoint
+   */
+  resourceMetadata(resource: string): Record<string, unknown> {
+    return {
+      resource,
+      ...(this.options.authorizationServer && { authorization_servers: [this.options.authorizationServer] }),
+      bearer_methods_supported: ['header'],
+      ...(this.options.requiredScopes.length > 0 && { scopes_supported: this.options.requiredScopes }),
+    };
+  }
+
+  private async introspect(token: string, cacheKey: string): Promise<Principal> {
+    const now = Date.now();
+    const cached = this.introspected.get(cacheKey);
+    if (cached && cached.expires > now) {
+      return cached.principal;
+    }
+
+    const { url, clientId, clientSecret, timeoutMs } = this.options.introspection!;
+    const response = await axios.post<IntrospectionResponse>(
+      url,
+      new URLSearchParams({ token, token_type_hint: 'access_token' }).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        auth: clientId ? { username: clientId, password: clientSecret ?? '' } : undefined,
+        timeout: timeoutMs,
+      }
+    );
+
+    const result = response.data;
+    if (!result.active) {
+      throw new HttpAuthError('Bearer token is not active', 401, 'invalid_token');
+    }
+    if (result.exp !== undefined && result.exp * 1000 <= now) {
+      throw new HttpAuthError('Bearer token has expired', 401, 'invalid_token');
+    }
+
+    const principal: Principal = {
+      name: result.sub ?? result.username ?? result.client_id ?? 'unknown',
+      source: 'introspection',
+      clientId: result.client_id,
+      scopes: result.scope ? result.scope.split(' ').filter(Boolean) : [],
+      expiresAt: result.exp,
+    };
+
+    for (const [key, entry] of this.introspected) {
+      if (entry.expires <= now || this.introspected.size >= MAX_INTROSPECTION_CACHE_ENTRIES) {
+        this.introspected.delete(key);
+      }
+    }
+    this.introspected.set(cacheKey, {
+      principal,
+      expires: Math.min(now + INTROSPECTION_CACHE_MS, result.exp !== undefined ? result.exp * 1000 : Infinity),
+    });
+
+    return principal;
+  }
+}
+
+const baseUrl = (req: Request) => `${req.protocol}://${req.get('host')}`;
+
+/**
+ * Requires a valid bearer token, logging each authenticated principal and passing it
+ * on as `req.auth` (tools see it as `authInfo`). Failures get the MCP authorization
+ * spec's responses: 401 or 403 with a WWW-Authenticate challenge naming the resource metadata.
+ */
+export function requireBearerAuth(authenticator: TokenAuthenticator): RequestHandler {
+  return async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+      if (!match) {
+        throw new HttpAuthError('Bearer token required', 401);
+      }
+
+      const principal = await authenticator.authenticate(match[1]);
+      logToFile('INFO', 'Authenticated request', {
+        principal: principal.name,
+        source: principal.source,
+        clientId: principal.clientId,
+        method: req.method,
+        sessionId: req.headers['mcp-session-id'],
+      });
+
+      req.auth = {
+        token: match[1],
+        clientId: principal.clientId ?? principal.name,
+        scopes: principal.scopes,
+        expiresAt: principal.expiresAt,
+        extra: { principal: principal.name, source: principal.source },
+      };
+      next();
+    } catch (error) {
+      if (error instanceof HttpAuthError) {
+        logToFile('WARN', 'Rejected request', { status: error.status, reason: error.message, ip: req.ip });
+
+        // A missing token gets a bare challenge; RFC 6750 reserves error codes for tokens that were sent
+        const challenge = [
+          ...(error.errorCode ? [`error="${error.errorCode}"`, `error_description="${error.message}"`] : []),
+          `resource_metadata="${baseUrl(req)}${RESOURCE_METADATA_PATH}"`,
+        ];
+        res.set('WWW-Authenticate', `Bearer ${challenge.join(', ')}`);
+        res.status(error.status).json({ error: error.errorCode ?? 'unauthorized', error_description: error.message });
+        return;
+      }
+
+      logToFile('ERROR', 'Token introspection failed', error);
+      res.status(503).json({ error: 'temporarily_unavailable', error_description: 'Token introspection is unavailable' });
+    }
+  };
+}
+
+/**
+ * Serves the protected resource metadata that clients discover from 401 challenges.
+ */
+export function resourceMetadataHandler(authenticator: TokenAuthenticator): RequestHandler {
+  return (req, res) => {
+    res.json(authenticator.resourceMetadata(`${baseUrl(req)}/mcp`));
+  };
+}
@@ -1,16 +1,89 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, Method } from 'axios';
 import crypto from 'crypto';
-import { Config } from './config.js';
-import { Withdrawal, Funding, WithdrawalListResponse, FundingListResponse } from './types.js';
+import { Config, DEFAULT_ACCOUNT } from './config.js';
+import {
+  AccountFees,
+  AvailableBook,
+  Balance,
+  BalanceResponse,
+  CryptoWithdrawalRequest,
+  FetchOptions,
+  LedgerEntry,
+  LedgerListParams,
+  LedgerListResponse,
+  OpenOrderListParams,
+  Order,
+  OrderBook,
+  OrderRequest,
+  PreparedRequest,
+  PublicTrade,
+  PublicTradeListParams,
+  SpeiWithdrawalRequest,
+  Ticker,
+  UserTrade,
+  UserTradeListParams,
+  UserTradeListResponse,
+  Withdrawal,
+  Funding,
+  FundingDestination,
+  WithdrawalListParams,
+  FundingListParams,
+  WithdrawalListResponse,
+  FundingListResponse,
+  WithdrawalMethod,
+  WithdrawalCatalog,
+  Page,
+  PaginatedResult,
+} from './types.js';
+import {
+  BitsoAuthError,
+  createBitsoError,
+  toBitsoError,
+  WithdrawalPolicyError,
+  WriteOperationsDisabledError,
+} from './errors.js';
+import { CacheEntryInfo, CacheStats, CacheStore, FileCacheStore, MemoryCacheStore, resolveTtl } from './utils/cache.js';
+import { Decimal } from './utils/decimal.js';
+import { splitEmbeddedTag, tagKindFor } from './utils/funding-destination.js';
+import { StatusHistoryStore, TrackedTransactionType, TransactionHistory } from './utils/status-history.js';
+import { StuckThresholds } from './utils/stuck.js';
 import { createLogger } from './utils/logging.js';
+import { applyDateRange, collectPages, ListAllOptions, MAX_PAGE_SIZE, paginate, PaginateOptions } from './utils/pagination.js';
+import { LimiterStats, RequestLimiter } from './utils/rate-limit.js';
+import { getRetryDelay, isRetryableError, sleep } from './utils/retry.js';
+
+function logQueuedRequests(kind: 'private' | 'public', maxConcurrent: number): (stats: LimiterStats) => void {
+  const logToFile = createLogger(import.meta.url, 'CLIENT');
+  return stats => logToFile('INFO', 'Bitso API request queued', { kind, ...stats, maxConcurrent });
+}
 
 export class BitsoApiClient {
   private client: AxiosInstance;
-  private cache = new Map<string, { data: any; expires: number }>();
+  private cache: CacheStore;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private privateLimiter: RequestLimiter;
+  private publicLimiter: RequestLimiter;
+  private lastNonce = 0;
+  private statusHistory: StatusHistoryStore;
   private logToFile: (level: string, message: string, data?: any) => void;
 
-  constructor(private config: Config) {
+  /**
+   * @param account - Name of the account profile whose credentials `config` carries
+   * @param publicLimiter - Limiter for public requests, shared by every account's client since
+   *   Bitso limits those per IP; a client of its own is used when omitted
+   */
+  constructor(private config: Config, readonly account = DEFAULT_ACCOUNT, publicLimiter?: RequestLimiter) {
     this.logToFile = createLogger(import.meta.url, 'CLIENT');
+    this.statusHistory = new StatusHistoryStore(config.statusHistoryFile);
+    const bounds = { maxEntries: config.cacheMaxEntries, maxBytes: config.cacheMaxBytes };
+    this.cache = config.cacheBackend === 'file' && config.cacheFile
+      ? new FileCacheStore(config.cacheFile, bounds)
+      : new MemoryCacheStore(bounds);
+    this.privateLimiter = new RequestLimiter(
+      { maxConcurrent: config.maxConcurrentRequests, requestsPerMinute: config.privateRateLimitPerMinute },
+      logQueuedRequests('private', config.maxConcurrentRequests)
+    );
+    this.publicLimiter = publicLimiter ?? BitsoApiClient.createPublicLimiter(config);
     
     this.client = axios.create({
       baseURL: config.apiEndpoint,
@@ -23,13 +96,32 @@ export class BitsoApiClient {
     this.setupResponseInterceptors();
   }
 
+  /**
+   * Creates the limiter for public market data requests, paced to PUBLIC_RATE_LIMIT_PER_MINUTE.
+   */
+  static createPublicLimiter(config: Config): RequestLimiter {
+    return new RequestLimiter(
+      { maxConcurrent: config.maxConcurrentRequests, requestsPerMinute: config.publicRateLimitPerMinute },
+      logQueuedRequests('public', config.maxConcurrentRequests)
+    );
+  }
+
   private generateSignature(nonce: string, httpMethod: string, requestPath: string, body?: string): string {
     const message = nonce + httpMethod + requestPath + (body || '');
-    return crypto.createHmac('sha256', this.config.apiSecret).update(message).digest('hex');
+    return crypto.createHmac('sha256', this.config.apiSecret ?? '').update(message).digest('hex');
   }
 
   private createAuthHeaders(httpMethod: string, requestPath: string, body?: string): Record<string, string> {
-    const nonce = Date.now().toString();
+    if (!this.hasCredentials()) {
+      throw new BitsoAuthError(
+        `Bitso API credentials are required for ${httpMethod} ${requestPath}`,
+        { method: httpMethod, path: requestPath }
+      );
+    }
+
+    // Bitso rejects a nonce that is not strictly increasing, which fast retries could otherwise produce
+    this.lastNonce = Math.max(Date.now(), this.lastNonce + 1);
+    const nonce = this.lastNonce.toString();
     const signature = this.generateSignature(nonce, httpMethod, requestPath, body);
 
     return {
@@ -52,38 +144,236 @@ export class BitsoApiClient {
     );
   }
 
+  /**
+   * Sends a request, signed unless `auth` is false, retrying transient failures on idempotent GETs.
+   * Auth headers are rebuilt on every attempt so each one carries a fresh nonce.
+   * Every attempt waits its turn with the private or public request limiter.
+   * Failures, including `success: false` payloads, are thrown as typed BitsoApiErrors.
+   */
+  private async request<T>(
+    httpMethod: Method,
+    requestPath: string,
+    options: { params?: Record<string, any>; body?: unknown; auth?: boolean } = {}
+  ): Promise<AxiosResponse<T>> {
+    const auth = options.auth ?? true;
+    const method = httpMethod.toUpperCase();
+    const maxAttempts = method === 'GET' ? this.config.retryMaxAttempts : 1;
+    // Bitso signs the path including its query string, so serialize it ourselves
+    // to guarantee the signed path and the requested URL are identical
+    const query = options.params
+      ? new URLSearchParams(
+          Object.entries(options.params)
+            .filter(([, value]) => value !== undefined && value !== null)
+            .map(([key, value]) => [key, String(value)])
+        ).toString()
+      : '';
+    const url = query ? `${requestPath}?${query}` : requestPath;
+    // The body is signed as sent, so it is serialized exactly once
+    const data = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+    const limiter = auth ? this.privateLimiter : this.publicLimiter;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: AxiosResponse<T>;
+      try {
+        // Headers are built once the request may start, so nonces increase in the order requests are sent
+        response = await limiter.run(() => this.client.request<T>({
+          method,
+          url,
+          headers: {
+            ...(auth ? this.createAuthHeaders(method, url, data) : {}),
+            ...(data !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          },
+          data,
+        }));
+      } catch (error) {
+        const delay = attempt < maxAttempts && isRetryableError(error)
+          ? getRetryDelay(error, attempt, this.config.retryBaseDelayMs)
+          : null;
+        if (delay === null) {
+          throw toBitsoError(error, method, requestPath);
+        }
+
+        this.logToFile('WARN', 'Retrying Bitso API request', {
+          method,
+          requestPath,
+          attempt,
+          maxAttempts,
+          delayMs: delay,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+        });
+        await sleep(delay);
+        continue;
+      }
+
+      const body = response.data as { success?: boolean } | undefined;
+      if (body?.success === false) {
+        throw createBitsoError(body, { status: response.status, method, path: requestPath });
+      }
+      return response;
+    }
+  }
+
   private getCacheKey(url: string, params?: any): string {
     return `${url}${params ? JSON.stringify(params) : ''}`;
   }
 
+  /**
+   * Shares one in-flight request between identical concurrent reads, keyed by cache key,
+   * so parallel calls made before the cache is populated reach Bitso once. A fresh read
+   * never joins a request that may have started before a write, and later reads join it instead.
+   */
+  private coalesce<T>(key: string, fetch: () => Promise<T>, options: FetchOptions = {}): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending && !options.fresh) {
+      this.logToFile('DEBUG', 'Joining in-flight request', { key });
+      return pending as Promise<T>;
+    }
+
+    const request: Promise<T> = fetch().finally(() => {
+      if (this.inFlight.get(key) === request) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
   private getCachedData<T>(key: string): T | null {
-    const cached = this.cache.get(key);
-    if (cached && cached.expires > Date.now()) {
-      this.logToFile('DEBUG', 'Cache hit', { key });
-      return cached.data;
+    const cached = this.cache.get<T>(key);
+    this.logToFile('DEBUG', cached === undefined ? 'Cache miss' : 'Cache hit', { key });
+    return cached ?? null;
+  }
+
+  /**
+   * Caches a response for `ttlSeconds`, unless a per-endpoint or per-status TTL applies.
+   */
+  private setCachedData<T>(key: string, data: T, ttlSeconds = this.config.cacheTtlSeconds): void {
+    const ttl = resolveTtl(
+      { byEndpoint: this.config.cacheEndpointTtlSeconds, byStatus: this.config.cacheStatusTtlSeconds },
+      key,
+      data,
+      ttlSeconds
+    );
+    this.cache.set(key, data, ttl);
+    this.logToFile('DEBUG', 'Cache set', { key, ttlSeconds: ttl });
+  }
+
+  /**
+   * Drops cached responses whose key starts with the prefix (e.g. '/api/v3/withdrawals'),
+   * or every cached response without one.
+   *
+   * @returns The number of entries dropped
+   */
+  invalidateCache(prefix?: string): number {
+    const removed = this.cache.invalidate(prefix);
+    this.logToFile('DEBUG', 'Cache invalidated', { prefix, removed });
+    return removed;
+  }
+
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  listCacheEntries(prefix?: string): CacheEntryInfo[] {
+    return this.cache.entries(prefix);
+  }
+
+  hasCredentials(): boolean {
+    return Boolean(this.config.apiKey && this.config.apiSecret);
+  }
+
+  writeOperationsEnabled(): boolean {
+    return this.config.enableWriteOperations;
+  }
+
+  getConfirmationTtlSeconds(): number {
+    return this.config.confirmationTtlSeconds;
+  }
+
+  getStuckThresholds(): StuckThresholds {
+    return {
+      byMethod: this.config.stuckThresholdMinutes,
+      defaultMinutes: this.config.stuckDefaultThresholdMinutes,
+    };
+  }
+
+  getWatchSettings(): { pollIntervalMs: number; ttlMinutes: number } {
+    return {
+      pollIntervalMs: this.config.watchPollIntervalSeconds * 1000,
+      ttlMinutes: this.config.watchTtlMinutes,
+    };
+  }
+
+  /**
+   * Gets every status observed for a withdrawal or funding, as recorded whenever
+   * it was fetched from Bitso (cache hits add nothing).
+   */
+  getStatusHistory(type: TrackedTransactionType, id: string): TransactionHistory | undefined {
+    return this.statusHistory.get(type, id);
+  }
+
+  /**
+   * Records statuses without letting a history write failure break the fetch that observed them.
+   */
+  private recordStatuses(type: TrackedTransactionType, records: Array<Withdrawal | Funding> | undefined): void {
+    try {
+      const changed = this.statusHistory.record(type, records ?? []);
+      if (changed > 0) {
+        this.logToFile('DEBUG', 'Status changes recorded', { type, changed });
+      }
+    } catch (error) {
+      this.logToFile('WARN', 'Failed to record status history', { type, error });
     }
-    if (cached) {
-      this.cache.delete(key);
-      this.logToFile('DEBUG', 'Cache expired', { key });
+  }
+
+  private assertWritesEnabled(operation: string): void {
+    if (!this.config.enableWriteOperations) {
+      throw new WriteOperationsDisabledError(operation);
     }
-    return null;
   }
 
-  private setCachedData<T>(key: string, data: T): void {
-    const expires = Date.now() + (this.config.cacheTtlSeconds * 1000);
-    this.cache.set(key, { data, expires });
-    this.logToFile('DEBUG', 'Cache set', { key, expires: new Date(expires) });
+  /**
+   * Checks a withdrawal against the write-enable flag, the destination allowlist
+   * and the per-currency maximum amount. A currency with no configured maximum is refused.
+   * On tag or memo networks the address is a shared exchange wallet, so the allowlist
+   * entry must carry the tag too (e.g. 'rAddress?dt=12345') and the tag must match it.
+   *
+   * @param destination - Crypto address, or CLABE for SPEI withdrawals
+   * @param network - Crypto network, which decides whether a tag is required
+   * @throws WriteOperationsDisabledError or WithdrawalPolicyError
+   */
+  assertWithdrawalAllowed(currency: string, destination: string, amount: string, network?: string, tag?: string): void {
+    this.assertWritesEnabled('create withdrawals');
+
+    const key = currency.toLowerCase();
+    const tagKind = network ? tagKindFor(key, network) : undefined;
+    if (tagKind && !tag) {
+      throw new WithdrawalPolicyError(`Withdrawals of ${key} on ${network} need a ${tagKind}; without it the funds cannot be credited`);
+    }
+
+    const allowed = (this.config.withdrawalAllowlist[key] ?? []).some(entry => {
+      const allowlisted = splitEmbeddedTag(entry);
+      return allowlisted.address === destination && ((allowlisted.tag === undefined && !tagKind) || allowlisted.tag === tag);
+    });
+    if (!allowed) {
+      const target = tag ? `${destination} with ${tagKind ?? 'tag'} ${tag}` : destination;
+      throw new WithdrawalPolicyError(`Destination ${target} is not in the ${key} withdrawal allowlist`);
+    }
+
+    const maximum = this.config.withdrawalMaxAmounts[key];
+    if (maximum === undefined) {
+      throw new WithdrawalPolicyError(`No maximum withdrawal amount is configured for ${key}`);
+    }
+    if (Decimal.from(amount).gt(maximum)) {
+      throw new WithdrawalPolicyError(`Amount ${amount} ${key} exceeds the maximum of ${maximum} ${key} per withdrawal`);
+    }
   }
 
   async testConnection(): Promise<boolean> {
     try {
       this.logToFile('INFO', 'Testing Bitso API connection...');
       
-      const requestPath = '/api/v3/withdrawals';
-      const authHeaders = this.createAuthHeaders('GET', requestPath);
-      
-      const response = await this.client.get(requestPath, {
-        headers: authHeaders,
+      const response = await this.request('GET', '/api/v3/withdrawals', {
         params: { limit: 1 }
       });
       
@@ -100,34 +390,21 @@ export class BitsoApiClient {
     }
   }
 
-  async getWithdrawals(params?: {
-    currency?: string;
-    limit?: number;
-    marker?: string;
-    method?: string;
-    origin_id?: string;
-    status?: string;
-    wid?: string;
-  }): Promise<WithdrawalListResponse> {
+  async getWithdrawals(params?: WithdrawalListParams, options: FetchOptions = {}): Promise<WithdrawalListResponse> {
     const cacheKey = this.getCacheKey('/api/v3/withdrawals', params);
-    const cached = this.getCachedData<WithdrawalListResponse>(cacheKey);
+    const cached = options.fresh ? null : this.getCachedData<WithdrawalListResponse>(cacheKey);
     
     if (cached) {
       return cached;
     }
 
     try {
-      const requestPath = '/api/v3/withdrawals';
-      const authHeaders = this.createAuthHeaders('GET', requestPath);
-      
       this.logToFile('INFO', 'Fetching withdrawals from Bitso API...', params);
       
-      const response: AxiosResponse<WithdrawalListResponse> = await this.client.get(requestPath, {
-        headers: authHeaders,
-        params
-      });
+      const response = await this.coalesce(cacheKey, () => this.request<WithdrawalListResponse>('GET', '/api/v3/withdrawals', { params }), options);
       
       this.setCachedData(cacheKey, response.data);
+      this.recordStatuses('withdrawal', response.data.payload);
       
       this.logToFile('INFO', 'Withdrawals fetched successfully', { count: response.data.payload?.length || 0 });
       return response.data;
@@ -137,30 +414,22 @@ export class BitsoApiClient {
     }
   }
 
-  async getWithdrawal(wid: string): Promise<Withdrawal> {
+  async getWithdrawal(wid: string, options: FetchOptions = {}): Promise<Withdrawal> {
     const cacheKey = this.getCacheKey(`/api/v3/withdrawals/${wid}`);
-    const cached = this.getCachedData<Withdrawal>(cacheKey);
+    const cached = options.fresh ? null : this.getCachedData<Withdrawal>(cacheKey);
     
     if (cached) {
       return cached;
     }
 
     try {
-      const requestPath = `/api/v3/withdrawals/${wid}`;
-      const authHeaders = this.createAuthHeaders('GET', requestPath);
-      
       this.logToFile('INFO', 'Fetching withdrawal from Bitso API...', { wid });
       
-      const response: AxiosResponse<{ success: boolean; payload: Withdrawal }> = await this.client.get(requestPath, {
-        headers: authHeaders
-      });
-      
-      if (!response.data.success) {
-        throw new Error('API request failed');
-      }
+      const response = await this.coalesce(cacheKey, () => this.request<{ success: boolean; payload: Withdrawal }>('GET', `/api/v3/withdrawals/${wid}`), options);
 
       const withdrawal = response.data.payload;
       this.setCachedData(cacheKey, withdrawal);
+      this.recordStatuses('withdrawal', [withdrawal]);
       
       this.logToFile('INFO', 'Withdrawal fetched successfully', { wid });
       return withdrawal;
@@ -170,32 +439,21 @@ export class BitsoApiClient {
     }
   }
 
-  async getFundings(params?: {
-    limit?: number;
-    marker?: string;
-    method?: string;
-    status?: string;
-    fids?: string;
-  }): Promise<FundingListResponse> {
+  async getFundings(params?: FundingListParams, options: FetchOptions = {}): Promise<FundingListResponse> {
     const cacheKey = this.getCacheKey('/api/v3/fundings', params);
-    const cached = this.getCachedData<FundingListResponse>(cacheKey);
+    const cached = options.fresh ? null : this.getCachedData<FundingListResponse>(cacheKey);
     
     if (cached) {
       return cached;
     }
 
     try {
-      const requestPath = '/api/v3/fundings';
-      const authHeaders = this.createAuthHeaders('GET', requestPath);
-      
       this.logToFile('INFO', 'Fetching fundings from Bitso API...', params);
       
-      const response: AxiosResponse<FundingListResponse> = await this.client.get(requestPath, {
-        headers: authHeaders,
-        params
-      });
+      const response = await this.coalesce(cacheKey, () => this.request<FundingListResponse>('GET', '/api/v3/fundings', { params }), options);
       
       this.setCachedData(cacheKey, response.data);
+      this.recordStatuses('funding', response.data.payload);
       
       this.logToFile('INFO', 'Fundings fetched successfully', { count: response.data.payload?.length || 0 });
       return response.data;
@@ -205,30 +463,22 @@ export class BitsoApiClient {
     }
   }
 
-  async getFunding(fid: string): Promise<Funding> {
+  async getFunding(fid: string, options: FetchOptions = {}): Promise<Funding> {
     const cacheKey = this.getCacheKey(`/api/v3/fundings/${fid}`);
-    const cached = this.getCachedData<Funding>(cacheKey);
+    const cached = options.fresh ? null : this.getCachedData<Funding>(cacheKey);
     
     if (cached) {
       return cached;
     }
 
     try {
-      const requestPath = `/api/v3/fundings/${fid}`;
-      const authHeaders = this.createAuthHeaders('GET', requestPath);
-      
       this.logToFile('INFO', 'Fetching funding from Bitso API...', { fid });
       
-      const response: AxiosResponse<{ success: boolean; payload: Funding }> = await this.client.get(requestPath, {
-        headers: authHeaders
-      });
-      
-      if (!response.data.success) {
-        throw new Error('API request failed');
-      }
+      const response = await this.coalesce(cacheKey, () => this.request<{ success: boolean; payload: Funding }>('GET', `/api/v3/fundings/${fid}`), options);
 
       const funding = response.data.payload;
       this.setCachedData(cacheKey, funding);
+      this.recordStatuses('funding', [funding]);
       
       this.logToFile('INFO', 'Funding fetched successfully', { fid });
       return funding;
@@ -238,8 +488,557 @@ export class BitsoApiClient {
     }
   }
 
-  clearCache(): void {
-    this.cache.clear();
-    this.logToFile('INFO', 'Cache cleared');
+  async getBalances(): Promise<Balance[]> {
+    const cacheKey = this.getCacheKey('/api/v3/balance');
+    const cached = this.getCachedData<Balance[]>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching balances from Bitso API...');
+      
+      const response = await this.coalesce(cacheKey, () => this.request<BalanceResponse>('GET', '/api/v3/balance'));
+      
+      const balances = response.data.payload?.balances ?? [];
+      this.setCachedData(cacheKey, balances);
+      
+      this.logToFile('INFO', 'Balances fetched successfully', { count: balances.length });
+      return balances;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch balances', error);
+      throw error;
+    }
+  }
+
+  async getLedger(params: LedgerListParams = {}): Promise<LedgerListResponse> {
+    const { operation, ...query } = params;
+    const requestPath = operation ? `/api/v3/ledger/${operation}` : '/api/v3/ledger';
+    const cacheKey = this.getCacheKey(requestPath, query);
+    const cached = this.getCachedData<LedgerListResponse>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching ledger from Bitso API...', params);
+      
+      const response = await this.coalesce(cacheKey, () => this.request<LedgerListResponse>('GET', requestPath, { params: query }));
+      
+      this.setCachedData(cacheKey, response.data);
+      
+      this.logToFile('INFO', 'Ledger fetched successfully', { count: response.data.payload?.length || 0 });
+      return response.data;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch ledger', error);
+      throw error;
+    }
+  }
+
+  async getUserTrades(params: UserTradeListParams = {}): Promise<UserTradeListResponse> {
+    const cacheKey = this.getCacheKey('/api/v3/user_trades', params);
+    const cached = this.getCachedData<UserTradeListResponse>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching user trades from Bitso API...', params);
+      
+      const response = await this.coalesce(cacheKey, () => this.request<UserTradeListResponse>('GET', '/api/v3/user_trades', { params }));
+      
+      this.setCachedData(cacheKey, response.data);
+      
+      this.logToFile('INFO', 'User trades fetched successfully', { count: response.data.payload?.length || 0 });
+      return response.data;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch user trades', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the trades that filled an order, identified by its `oid` or client-supplied `origin_id`.
+   */
+  async getOrderTrades(order: { oid: string } | { origin_id: string }): Promise<UserTrade[]> {
+    const requestPath = 'oid' in order
+      ? `/api/v3/order_trades/${encodeURIComponent(order.oid)}`
+      : '/api/v3/order_trades';
+    const params = 'oid' in order ? undefined : { origin_id: order.origin_id };
+    const cacheKey = this.getCacheKey(requestPath, params);
+    const cached = this.getCachedData<UserTrade[]>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching order trades from Bitso API...', order);
+      
+      const response = await this.coalesce(cacheKey, () => this.request<UserTradeListResponse>('GET', requestPath, { params }));
+      
+      const trades = response.data.payload ?? [];
+      this.setCachedData(cacheKey, trades);
+      
+      this.logToFile('INFO', 'Order trades fetched successfully', { count: trades.length });
+      return trades;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch order trades', { order, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up orders by Bitso order IDs and/or client-supplied origin IDs.
+   * Order status changes quickly, so results are not cached.
+   */
+  async lookupOrders(ids: { oids?: string[]; origin_ids?: string[] }): Promise<Order[]> {
+    const params: Record<string, string> = {};
+    if (ids.oids?.length) {
+      params.oids = ids.oids.join(',');
+    }
+    if (ids.origin_ids?.length) {
+      params.origin_ids = ids.origin_ids.join(',');
+    }
+
+    try {
+      this.logToFile('INFO', 'Looking up orders from Bitso API...', params);
+      
+      const response = await this.request<{ success: boolean; payload: Order[] }>('GET', '/api/v3/orders', { params });
+      
+      const orders = response.data.payload ?? [];
+      this.logToFile('INFO', 'Orders looked up successfully', { count: orders.length });
+      return orders;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to look up orders', { params, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the account's trading and withdrawal fees, cached with the catalog TTL.
+   */
+  async getFees(): Promise<AccountFees> {
+    const cacheKey = this.getCacheKey('/api/v3/fees');
+    const cached = this.getCachedData<AccountFees>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching fees from Bitso API...');
+      
+      const response = await this.coalesce(cacheKey, () => this.request<{ success: boolean; payload: AccountFees }>('GET', '/api/v3/fees'));
+      
+      const fees = response.data.payload;
+      this.setCachedData(cacheKey, fees, this.config.catalogCacheTtlSeconds);
+      
+      this.logToFile('INFO', 'Fees fetched successfully', { currencies: Object.keys(fees.withdrawal_fees ?? {}).length });
+      return fees;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch fees', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the ways a currency can be withdrawn, cached with the catalog TTL.
+   */
+  async getWithdrawalMethods(currency: string): Promise<WithdrawalMethod[]> {
+    const requestPath = `/api/v3/withdrawal_methods/${encodeURIComponent(currency.toLowerCase())}`;
+    const cacheKey = this.getCacheKey(requestPath);
+    const cached = this.getCachedData<WithdrawalMethod[]>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching withdrawal methods from Bitso API...', { currency });
+      
+      const response = await this.coalesce(cacheKey, () => this.request<{ success: boolean; payload: WithdrawalMethod[] }>('GET', requestPath));
+      
+      const methods = response.data.payload ?? [];
+      this.setCachedData(cacheKey, methods, this.config.catalogCacheTtlSeconds);
+      
+      this.logToFile('INFO', 'Withdrawal methods fetched successfully', { currency, count: methods.length });
+      return methods;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch withdrawal methods', { currency, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the withdrawal catalog: methods per currency, for one currency or for
+   * every currency that has a withdrawal fee. For one currency a failure is thrown;
+   * across every currency, currencies that fail are listed as unavailable instead.
+   */
+  async getWithdrawalCatalog(currency?: string): Promise<WithdrawalCatalog> {
+    if (currency) {
+      const code = currency.toLowerCase();
+      return { methods: { [code]: await this.getWithdrawalMethods(code) }, unavailable: [] };
+    }
+
+    const currencies = Object.keys((await this.getFees()).withdrawal_fees ?? {}).sort();
+    const results = await Promise.allSettled(currencies.map(code => this.getWithdrawalMethods(code)));
+    const catalog: WithdrawalCatalog = { methods: {}, unavailable: [] };
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        catalog.methods[currencies[index]] = result.value;
+      } else {
+        catalog.unavailable.push(currencies[index]);
+      }
+    });
+    return catalog;
+  }
+
+  /**
+   * Gets the deposit address or CLABE for a currency, optionally on a specific network.
+   * Destinations rarely change, so they are cached with the catalog TTL.
+   */
+  async getFundingDestination(currency: string, network?: string): Promise<FundingDestination> {
+    const params = { fund_currency: currency.toLowerCase(), network: network?.toLowerCase() };
+    const cacheKey = this.getCacheKey('/api/v3/funding_destination', params);
+    const cached = this.getCachedData<FundingDestination>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching funding destination from Bitso API...', params);
+      
+      const response = await this.coalesce(cacheKey, () => this.request<{ success: boolean; payload: FundingDestination }>('GET', '/api/v3/funding_destination', { params }));
+      
+      const destination = response.data.payload;
+      this.setCachedData(cacheKey, destination, this.config.catalogCacheTtlSeconds);
+      
+      this.logToFile('INFO', 'Funding destination fetched successfully', { ...params, identifier: destination.account_identifier_name });
+      return destination;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch funding destination', { params, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the account's open orders, optionally for one book.
+   * Open orders change with every fill, so results are not cached.
+   */
+  async getOpenOrders(params: OpenOrderListParams = {}): Promise<Order[]> {
+    try {
+      this.logToFile('INFO', 'Fetching open orders from Bitso API...', params);
+      
+      const response = await this.request<{ success: boolean; payload: Order[] }>('GET', '/api/v3/open_orders', { params });
+      
+      const orders = response.data.payload ?? [];
+      this.logToFile('INFO', 'Open orders fetched successfully', { count: orders.length });
+      return orders;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch open orders', { params, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels orders by Bitso order ID with signed DELETE requests of up to MAX_PAGE_SIZE
+   * IDs each, sent one after another. Never retried: a timed-out cancel may still have been applied.
+   *
+   * @returns The order IDs Bitso reports as cancelled
+   * @throws WriteOperationsDisabledError if write operations are not enabled
+   */
+  async cancelOrders(oids: string[]): Promise<string[]> {
+    this.assertWritesEnabled('cancel orders');
+
+    const cancelled: string[] = [];
+    for (let start = 0; start < oids.length; start += MAX_PAGE_SIZE) {
+      const batch = oids.slice(start, start + MAX_PAGE_SIZE);
+      const requestPath = `/api/v3/orders/${batch.map(encodeURIComponent).join('-')}`;
+      try {
+        this.logToFile('INFO', 'Cancelling orders via Bitso API...', { oids: batch });
+        
+        const response = await this.request<{ success: boolean; payload: string[] }>('DELETE', requestPath);
+        
+        cancelled.push(...(response.data.payload ?? []));
+        this.logToFile('INFO', 'Orders cancelled successfully', { requested: batch.length, cancelled: response.data.payload });
+      } catch (error) {
+        this.logToFile('ERROR', 'Failed to cancel orders', { oids: batch, error });
+        throw error;
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Describes the request placeOrder would send, without signing or sending it,
+   * so a dry run never hands out a replayable Authorization header.
+   */
+  prepareOrderRequest(order: OrderRequest): PreparedRequest {
+    const requestPath = '/api/v3/orders';
+    const body = JSON.stringify(order);
+
+    return {
+      method: 'POST',
+      url: `${this.config.apiEndpoint}${requestPath}`,
+      path: requestPath,
+      headers: {
+        'Authorization': 'Bitso <api_key>:<nonce>:<signature>',
+        'Content-Type': 'application/json',
+      },
+      body,
+      string_to_sign: `<nonce>POST${requestPath}${body}`,
+    };
+  }
+
+  /**
+   * Places an order with a signed POST. Never retried: a timed-out POST may still
+   * have created the order, so check with lookupOrders (by origin_id) instead.
+   *
+   * @returns The Bitso order ID of the new order
+   * @throws WriteOperationsDisabledError if write operations are not enabled
+   */
+  async placeOrder(order: OrderRequest): Promise<string> {
+    this.assertWritesEnabled('place orders');
+
+    try {
+      this.logToFile('INFO', 'Placing order via Bitso API...', order);
+      
+      const response = await this.request<{ success: boolean; payload: { oid: string } }>('POST', '/api/v3/orders', { body: order });
+      
+      const oid = response.data.payload.oid;
+      this.logToFile('INFO', 'Order placed successfully', { oid, origin_id: order.origin_id });
+      return oid;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to place order', { order, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a crypto withdrawal, after re-checking the withdrawal policy.
+   *
+   * @returns The new withdrawal
+   * @throws WriteOperationsDisabledError or WithdrawalPolicyError if the policy forbids it
+   */
+  async createCryptoWithdrawal(withdrawal: CryptoWithdrawalRequest): Promise<Withdrawal> {
+    this.assertWithdrawalAllowed(withdrawal.currency, withdrawal.address, withdrawal.amount, withdrawal.network, withdrawal.tag);
+    return this.postWithdrawal('/api/v3/withdrawal', withdrawal);
+  }
+
+  /**
+   * Creates an MXN withdrawal over SPEI to a CLABE, after re-checking the withdrawal policy.
+   *
+   * @returns The new withdrawal
+   * @throws WriteOperationsDisabledError or WithdrawalPolicyError if the policy forbids it
+   */
+  async createSpeiWithdrawal(withdrawal: SpeiWithdrawalRequest): Promise<Withdrawal> {
+    this.assertWithdrawalAllowed('mxn', withdrawal.clabe, withdrawal.amount);
+    return this.postWithdrawal('/api/v3/spei_withdrawal', withdrawal);
+  }
+
+  /**
+   * Sends a withdrawal with a signed POST. Never retried; callers detect a withdrawal
+   * that was created despite an error by looking it up with its origin_id, so cached
+   * withdrawal reads are dropped either way.
+   */
+  private async postWithdrawal(requestPath: string, withdrawal: { origin_id: string }): Promise<Withdrawal> {
+    try {
+      this.logToFile('INFO', 'Creating withdrawal via Bitso API...', { requestPath, withdrawal });
+      
+      const response = await this.request<{ success: boolean; payload: Withdrawal }>('POST', requestPath, { body: withdrawal });
+      
+      const created = response.data.payload;
+      this.recordStatuses('withdrawal', [created]);
+      this.logToFile('INFO', 'Withdrawal created successfully', { wid: created.wid, status: created.status, origin_id: withdrawal.origin_id });
+      return created;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to create withdrawal', { requestPath, withdrawal, error });
+      throw error;
+    } finally {
+      this.invalidateCache('/api/v3/withdrawals');
+    }
+  }
+
+  /**
+   * Fetches a public (unauthenticated) endpoint, cached with the short public TTL.
+   * Works even when no API credentials are configured.
+   */
+  private async getPublic<T>(requestPath: string, params?: Record<string, any>): Promise<T> {
+    const cacheKey = this.getCacheKey(requestPath, params);
+    const cached = this.getCachedData<T>(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      this.logToFile('INFO', 'Fetching public data from Bitso API...', { requestPath, params });
+      
+      const response = await this.coalesce(cacheKey, () => this.request<{ success: boolean; payload: T }>('GET', requestPath, { params, auth: false }));
+      
+      const payload = response.data.payload;
+      this.setCachedData(cacheKey, payload, this.config.publicCacheTtlSeconds);
+      
+      this.logToFile('INFO', 'Public data fetched successfully', { requestPath });
+      return payload;
+    } catch (error) {
+      this.logToFile('ERROR', 'Failed to fetch public data', { requestPath, params, error });
+      throw error;
+    }
+  }
+
+  async getAvailableBooks(): Promise<AvailableBook[]> {
+    return this.getPublic<AvailableBook[]>('/api/v3/available_books');
+  }
+
+  async getTicker(book: string): Promise<Ticker> {
+    return this.getPublic<Ticker>('/api/v3/ticker', { book });
+  }
+
+  async getTickers(): Promise<Ticker[]> {
+    return this.getPublic<Ticker[]>('/api/v3/ticker');
+  }
+
+  async getOrderBook(book: string, aggregate = true): Promise<OrderBook> {
+    return this.getPublic<OrderBook>('/api/v3/order_book', { book, aggregate });
+  }
+
+  async getPublicTrades(params: PublicTradeListParams): Promise<PublicTrade[]> {
+    return this.getPublic<PublicTrade[]>('/api/v3/trades', params);
+  }
+
+  /**
+   * Iterates over withdrawal pages, following Bitso's marker cursor until exhausted
+   * or until the record cap / stop condition in `options` is reached.
+   */
+  iterateWithdrawals(
+    params: Omit<WithdrawalListParams, 'limit' | 'marker'> = {},
+    options: PaginateOptions<Withdrawal> = {}
+  ): AsyncGenerator<Page<Withdrawal>> {
+    return paginate(
+      async (marker, limit) => (await this.getWithdrawals({ ...params, limit, marker })).payload ?? [],
+      withdrawal => withdrawal.wid,
+      options
+    );
+  }
+
+  /**
+   * Iterates over funding pages, following Bitso's marker cursor until exhausted
+   * or until the record cap / stop condition in `options` is reached.
+   */
+  iterateFundings(
+    params: Omit<FundingListParams, 'limit' | 'marker'> = {},
+    options: PaginateOptions<Funding> = {}
+  ): AsyncGenerator<Page<Funding>> {
+    return paginate(
+      async (marker, limit) => (await this.getFundings({ ...params, limit, marker })).payload ?? [],
+      funding => funding.fid,
+      options
+    );
+  }
+
+  /**
+   * Iterates over ledger pages, following Bitso's marker cursor in the requested sort order.
+   */
+  iterateLedger(
+    params: Omit<LedgerListParams, 'limit' | 'marker'> = {},
+    options: PaginateOptions<LedgerEntry> = {}
+  ): AsyncGenerator<Page<LedgerEntry>> {
+    return paginate(
+      async (marker, limit) => (await this.getLedger({ ...params, limit, marker })).payload ?? [],
+      entry => entry.eid,
+      options
+    );
+  }
+
+  async getAllLedger(
+    params: Omit<LedgerListParams, 'limit' | 'marker'> = {},
+    options: PaginateOptions<LedgerEntry> = {}
+  ): Promise<PaginatedResult<LedgerEntry>> {
+    const result = await collectPages(this.iterateLedger(params, options));
+    this.logToFile('INFO', 'Paginated ledger fetched', {
+      count: result.items.length,
+      pages: result.pagesFetched,
+      truncated: result.truncated,
+    });
+    return result;
+  }
+
+  /**
+   * Iterates over the account's trade pages, following Bitso's marker cursor (trade ID).
+   */
+  iterateUserTrades(
+    params: Omit<UserTradeListParams, 'limit' | 'marker'> = {},
+    options: PaginateOptions<UserTrade> = {}
+  ): AsyncGenerator<Page<UserTrade>> {
+    return paginate(
+      async (marker, limit) => (await this.getUserTrades({ ...params, limit, marker })).payload ?? [],
+      trade => String(trade.tid),
+      options
+    );
+  }
+
+  async getAllUserTrades(
+    params: Omit<UserTradeListParams, 'limit' | 'marker'> = {},
+    options: PaginateOptions<UserTrade> = {}
+  ): Promise<PaginatedResult<UserTrade>> {
+    const result = await collectPages(this.iterateUserTrades(params, options));
+    this.logToFile('INFO', 'Paginated user trades fetched', {
+      count: result.items.length,
+      pages: result.pagesFetched,
+      truncated: result.truncated,
+    });
+    return result;
+  }
+
+  /**
+   * Fetches every open order, optionally for one book, following the oid marker across pages.
+   */
+  async getAllOpenOrders(params: Omit<OpenOrderListParams, 'limit' | 'marker'> = {}): Promise<Order[]> {
+    const result = await collectPages(paginate(
+      (marker, limit) => this.getOpenOrders({ ...params, limit, marker }),
+      order => order.oid
+    ));
+    this.logToFile('INFO', 'Paginated open orders fetched', { count: result.items.length, pages: result.pagesFetched });
+    return result.items;
+  }
+
+  /**
+   * Fetches all withdrawals matching `params` across pages, optionally restricted to a
+   * `created_at` range. `maxRecords` caps the number of matching records returned.
+   */
+  async getAllWithdrawals(
+    params: Omit<WithdrawalListParams, 'limit' | 'marker'> = {},
+    options: ListAllOptions<Withdrawal> = {}
+  ): Promise<PaginatedResult<Withdrawal>> {
+    const result = await collectPages(this.iterateWithdrawals(params, applyDateRange(options)));
+    this.logToFile('INFO', 'Paginated withdrawals fetched', {
+      count: result.items.length,
+      pages: result.pagesFetched,
+      truncated: result.truncated,
+    });
+    return result;
+  }
+
+  /**
+   * Fetches all fundings matching `params` across pages, optionally restricted to a
+   * `created_at` range. `maxRecords` caps the number of matching records returned.
+   */
+  async getAllFundings(
+    params: Omit<FundingListParams, 'limit' | 'marker'> = {},
+    options: ListAllOptions<Funding> = {}
+  ): Promise<PaginatedResult<Funding>> {
+    const result = await collectPages(this.iterateFundings(params, applyDateRange(options)));
+    this.logToFile('INFO', 'Paginated fundings fetched', {
+      count: result.items.length,
+      pages: result.pagesFetched,
+      truncated: result.truncated,
+    });
+    return result;
   }
 }
\ No newline at end of file
@@ -1,33 +1,287 @@
 import { config } from 'dotenv';
+import path from 'path';
 import { z } from 'zod';
+import { CACHE_BACKENDS } from './utils/cache.js';
+import { getProjectRoot } from './utils/logging.js';
 
 config();
 
+/**
+ * Name of the account backed by the top-level BITSO_API_KEY and BITSO_API_SECRET.
+ */
+export const DEFAULT_ACCOUNT = 'default';
+
+/**
+ * Account value that makes the balance and summary tools aggregate across every account.
+ */
+export const ALL_ACCOUNTS = 'all';
+
+/**
+ * Parses comma-separated `key:value` entries (e.g. 'btc:bc1q...,mxn:50000').
+ * Keys are lower-cased; values may themselves contain ':' since only the first one separates them.
+ */
+function parseKeyedEntries(value: string | undefined): Array<[string, string]> {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return separator === -1
+        ? ['', entry]
+        : [entry.slice(0, separator).trim().toLowerCase(), entry.slice(separator + 1).trim()];
+    });
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(/[\s,]+/).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * Reads the credentials of each profile named in BITSO_ACCOUNTS from
+ * BITSO_ACCOUNT_<NAME>_API_KEY and BITSO_ACCOUNT_<NAME>_API_SECRET, and the optional
+ * per-profile BITSO_ACCOUNT_<NAME>_WITHDRAWAL_ALLOWLIST and _WITHDRAWAL_MAX_AMOUNTS.
+ */
+function parseAccounts(value: string | undefined): Record<string, AccountProfileInput> | undefined {
+  const names = parseList(value);
+  if (!names) {
+    return undefined;
+  }
+
+  return Object.fromEntries(names.map(name => {
+    const prefix = `BITSO_ACCOUNT_${name.toUpperCase().replace(/-/g, '_')}`;
+    const maxAmounts = process.env[`${prefix}_WITHDRAWAL_MAX_AMOUNTS`];
+    return [name.toLowerCase(), {
+      apiKey: process.env[`${prefix}_API_KEY`] || undefined,
+      apiSecret: process.env[`${prefix}_API_SECRET`] || undefined,
+      withdrawalAllowlist: parseAllowlist(process.env[`${prefix}_WITHDRAWAL_ALLOWLIST`]),
+      withdrawalMaxAmounts: maxAmounts ? Object.fromEntries(parseKeyedEntries(maxAmounts)) : undefined,
+    }];
+  }));
+}
+
+interface AccountProfileInput {
+  apiKey?: string;
+  apiSecret?: string;
+  withdrawalAllowlist?: Record<string, string[]>;
+  withdrawalMaxAmounts?: Record<string, string>;
+}
+
+function parseAllowlist(value: string | undefined): Record<string, string[]> | undefined {
+  const entries = parseKeyedEntries(value);
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const allowlist: Record<string, string[]> = {};
+  for (const [currency, destination] of entries) {
+    (allowlist[currency] ??= []).push(destination);
+  }
+  return allowlist;
+}
+
+const WithdrawalAllowlistSchema = z.record(
+  z.string().min(1, 'Allowlist entries must be currency:destination'),
+  z.array(z.string().min(1))
+);
+
+const WithdrawalMaxAmountsSchema = z.record(
+  z.string().min(1, 'Maximum amounts must be currency:amount'),
+  z.string().regex(/^\d+(\.\d+)?$/, 'Maximum amounts must be decimal numbers')
+);
+
 const ConfigSchema = z.object({
   // Bitso API Configuration
-  apiKey: z.string().min(1, 'BITSO_API_KEY environment variable is required'),
-  apiSecret: z.string().min(1, 'BITSO_API_SECRET environment variable is required'),
+  // Credentials are only needed for private endpoints; public market data works without them
+  apiKey: z.string().min(1, 'BITSO_API_KEY must not be empty').optional(),
+  apiSecret: z.string().min(1, 'BITSO_API_SECRET must not be empty').optional(),
   apiEndpoint: z.string().url().default('https://api.bitso.com'),
+  // Named account profiles, each with its own credentials; the top-level credentials are the 'default' account.
+  // A profile's withdrawal allowlist and maximum amounts, when set, replace the shared ones for that account
+  accounts: z.record(
+    z.string().regex(/^[a-z][a-z0-9_-]*$/, 'Account names must start with a letter and use only a-z, 0-9, - and _'),
+    z.object({
+      apiKey: z.string({ required_error: 'Account profiles need an API key' }).min(1),
+      apiSecret: z.string({ required_error: 'Account profiles need an API secret' }).min(1),
+      withdrawalAllowlist: WithdrawalAllowlistSchema.optional(),
+      withdrawalMaxAmounts: WithdrawalMaxAmountsSchema.optional(),
+    })
+  ).default({}),
+  // Account used when a tool call names none; 'default' if it exists, otherwise the first profile
+  defaultAccount: z.string().min(1).optional(),
   
   // General Configuration
   cacheTtlSeconds: z.number().int().positive().default(300),
+  publicCacheTtlSeconds: z.number().int().nonnegative().default(5),
+  catalogCacheTtlSeconds: z.number().int().positive().default(3600),
+  // Cache storage: an in-memory LRU, optionally persisted to cacheFile, bounded by entries and serialized bytes
+  cacheBackend: z.enum(CACHE_BACKENDS).default('memory'),
+  cacheFile: z.string().min(1).optional(),
+  cacheMaxEntries: z.number().int().positive().default(1000),
+  cacheMaxBytes: z.number().int().positive().default(10 * 1024 * 1024),
+  // TTL overrides per endpoint (e.g. balance, withdrawals, ticker) and per withdrawal/funding status
+  cacheEndpointTtlSeconds: z.record(z.number().int().nonnegative()).default({}),
+  cacheStatusTtlSeconds: z.record(z.number().int().nonnegative()).default({
+    pending: 10,
+    processing: 10,
+    complete: 86400,
+    failed: 86400,
+    cancelled: 86400,
+  }),
   timeout: z.number().int().positive().default(30000),
   
+  // Retry Configuration
+  retryMaxAttempts: z.number().int().positive().default(3),
+  retryBaseDelayMs: z.number().int().nonnegative().default(500),
+  
+  // Request Limits: Bitso allows 300 private requests per minute per user and 60 public
+  // requests per minute per IP, so each account paces its private requests and all accounts share the public pace
+  maxConcurrentRequests: z.number().int().positive().default(5),
+  privateRateLimitPerMinute: z.number().int().positive().default(300),
+  publicRateLimitPerMinute: z.number().int().positive().default(60),
+  
+  // Write Operations (orders, withdrawals) are refused unless explicitly enabled, and then only
+  // for the accounts in writeAccounts when it is set
+  enableWriteOperations: z.boolean().default(false),
+  writeAccounts: z.array(z.string().min(1)).optional(),
+  confirmationTtlSeconds: z.number().int().positive().default(300),
+  // Withdrawals may only go to allowlisted destinations (with '?dt=<tag>' on tag networks), keyed by currency, and
+  // are refused for any currency without a configured maximum amount
+  withdrawalAllowlist: WithdrawalAllowlistSchema.default({}),
+  withdrawalMaxAmounts: WithdrawalMaxAmountsSchema.default({}),
+  
+  // Stuck transaction detection: minutes a pending/processing transaction may wait, per method
+  stuckThresholdMinutes: z.record(z.number().int().positive()).default({ sp: 30, btc: 120 }),
+  stuckDefaultThresholdMinutes: z.number().int().positive().default(60),
+  
+  // Status timeline: observed withdrawal/funding statuses are persisted here; kept in memory only when unset
+  statusHistoryFile: z.string().min(1).optional(),
+  
+  // Transaction watches: how often watched transactions are re-fetched, and how long a watch lasts by default
+  watchPollIntervalSeconds: z.number().int().positive().default(30),
+  watchTtlMinutes: z.number().int().positive().default(60),
+  
+  // HTTP transport sessions: concurrent session cap and idle timeout
+  httpMaxSessions: z.number().int().positive().default(100),
+  httpSessionIdleTimeoutSeconds: z.number().int().positive().default(1800),
+  
+  // HTTP transport auth: static bearer tokens keyed by label, and/or RFC 7662 token introspection
+  httpAuthTokens: z.record(
+    z.string().min(1, 'Auth tokens must be label:token'),
+    z.string().min(16, 'Auth tokens must be at least 16 characters')
+  ).default({}),
+  httpIntrospectionUrl: z.string().url().optional(),
+  httpIntrospectionClientId: z.string().min(1).optional(),
+  httpIntrospectionClientSecret: z.string().min(1).optional(),
+  httpRequiredScopes: z.array(z.string().min(1)).default([]),
+  httpAuthorizationServer: z.string().url().optional(),
+  // Browser origins allowed to call the HTTP endpoint; no wildcard
+  httpAllowedOrigins: z.array(z.string().url('Allowed origins must be URLs like http://localhost:6274')).default([]),
+  
   // Optional Configuration
   defaultLimit: z.number().int().positive().default(25),
   debug: z.boolean().default(false),
+}).refine(config => Boolean(config.apiKey) === Boolean(config.apiSecret), {
+  message: 'BITSO_API_KEY and BITSO_API_SECRET must be set together',
+  path: ['apiSecret'],
+}).refine(config => config.cacheBackend !== 'file' || Boolean(config.cacheFile), {
+  message: 'CACHE_FILE is required when CACHE_BACKEND is file',
+  path: ['cacheFile'],
+}).refine(config => !(ALL_ACCOUNTS in config.accounts), {
+  message: `'${ALL_ACCOUNTS}' is reserved and cannot be an account name`,
+  path: ['accounts'],
+}).refine(config => !(config.apiKey && DEFAULT_ACCOUNT in config.accounts), {
+  message: `An account profile named '${DEFAULT_ACCOUNT}' conflicts with BITSO_API_KEY`,
+  path: ['accounts'],
+}).refine(config => !config.defaultAccount || hasAccount(config, config.defaultAccount), {
+  message: 'BITSO_DEFAULT_ACCOUNT must name a configured account',
+  path: ['defaultAccount'],
+}).refine(config => (config.writeAccounts ?? []).every(name => hasAccount(config, name)), {
+  message: 'BITSO_WRITE_ACCOUNTS must name configured accounts',
+  path: ['writeAccounts'],
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+/**
+ * Lists the configured account names. The 'default' account exists when the top-level
+ * credentials are set, or when there are no profiles (for public market data).
+ */
+export function getAccountNames(config: { apiKey?: string; accounts: Record<string, unknown> }): string[] {
+  const profiles = Object.keys(config.accounts);
+  return config.apiKey || profiles.length === 0 ? [DEFAULT_ACCOUNT, ...profiles] : profiles;
+}
+
+function hasAccount(config: { apiKey?: string; accounts: Record<string, unknown> }, name: string): boolean {
+  return getAccountNames(config).includes(name);
+}
+
 export function loadConfig(): Config {
   try {
     const rawConfig = {
-      apiKey: process.env.BITSO_API_KEY,
-      apiSecret: process.env.BITSO_API_SECRET,
+      apiKey: process.env.BITSO_API_KEY || undefined,
+      apiSecret: process.env.BITSO_API_SECRET || undefined,
       apiEndpoint: process.env.BITSO_API_ENDPOINT,
+      accounts: parseAccounts(process.env.BITSO_ACCOUNTS),
+      defaultAccount: process.env.BITSO_DEFAULT_ACCOUNT?.trim().toLowerCase() || undefined,
       cacheTtlSeconds: process.env.CACHE_TTL_SECONDS ? parseInt(process.env.CACHE_TTL_SECONDS, 10) : undefined,
+      publicCacheTtlSeconds: process.env.PUBLIC_CACHE_TTL_SECONDS ? parseInt(process.env.PUBLIC_CACHE_TTL_SECONDS, 10) : undefined,
+      catalogCacheTtlSeconds: process.env.CATALOG_CACHE_TTL_SECONDS ? parseInt(process.env.CATALOG_CACHE_TTL_SECONDS, 10) : undefined,
+      cacheBackend: process.env.CACHE_BACKEND || undefined,
+      cacheFile: process.env.CACHE_BACKEND === 'file'
+        ? process.env.CACHE_FILE || path.join(getProjectRoot(import.meta.url), 'bitso-cache.json')
+        : undefined,
+      cacheMaxEntries: process.env.CACHE_MAX_ENTRIES ? parseInt(process.env.CACHE_MAX_ENTRIES, 10) : undefined,
+      cacheMaxBytes: process.env.CACHE_MAX_BYTES ? parseInt(process.env.CACHE_MAX_BYTES, 10) : undefined,
+      cacheEndpointTtlSeconds: process.env.CACHE_ENDPOINT_TTL_SECONDS
+        ? Object.fromEntries(
+            parseKeyedEntries(process.env.CACHE_ENDPOINT_TTL_SECONDS).map(([endpoint, seconds]) => [endpoint, Number(seconds)])
+          )
+        : undefined,
+      cacheStatusTtlSeconds: process.env.CACHE_STATUS_TTL_SECONDS
+        ? Object.fromEntries(
+            parseKeyedEntries(process.env.CACHE_STATUS_TTL_SECONDS).map(([status, seconds]) => [status, Number(seconds)])
+          )
+        : undefined,
       timeout: process.env.TIMEOUT ? parseInt(process.env.TIMEOUT, 10) : undefined,
+      retryMaxAttempts: process.env.RETRY_MAX_ATTEMPTS ? parseInt(process.env.RETRY_MAX_ATTEMPTS, 10) : undefined,
+      retryBaseDelayMs: process.env.RETRY_BASE_DELAY_MS ? parseInt(process.env.RETRY_BASE_DELAY_MS, 10) : undefined,
+      maxConcurrentRequests: process.env.MAX_CONCURRENT_REQUESTS ? parseInt(process.env.MAX_CONCURRENT_REQUESTS, 10) : undefined,
+      privateRateLimitPerMinute: process.env.PRIVATE_RATE_LIMIT_PER_MINUTE ? parseInt(process.env.PRIVATE_RATE_LIMIT_PER_MINUTE, 10) : undefined,
+      publicRateLimitPerMinute: process.env.PUBLIC_RATE_LIMIT_PER_MINUTE ? parseInt(process.env.PUBLIC_RATE_LIMIT_PER_MINUTE, 10) : undefined,
+      enableWriteOperations: process.env.BITSO_ENABLE_WRITE_OPERATIONS === 'true',
+      writeAccounts: parseList(process.env.BITSO_WRITE_ACCOUNTS)?.map(name => name.toLowerCase()),
+      confirmationTtlSeconds: process.env.CONFIRMATION_TTL_SECONDS ? parseInt(process.env.CONFIRMATION_TTL_SECONDS, 10) : undefined,
+      withdrawalAllowlist: parseAllowlist(process.env.WITHDRAWAL_ALLOWLIST),
+      withdrawalMaxAmounts: process.env.WITHDRAWAL_MAX_AMOUNTS
+        ? Object.fromEntries(parseKeyedEntries(process.env.WITHDRAWAL_MAX_AMOUNTS))
+        : undefined,
+      stuckThresholdMinutes: process.env.STUCK_THRESHOLD_MINUTES
+        ? Object.fromEntries(
+            parseKeyedEntries(process.env.STUCK_THRESHOLD_MINUTES).map(([method, minutes]) => [method, Number(minutes)])
+          )
+        : undefined,
+      stuckDefaultThresholdMinutes: process.env.STUCK_DEFAULT_THRESHOLD_MINUTES ? parseInt(process.env.STUCK_DEFAULT_THRESHOLD_MINUTES, 10) : undefined,
+      statusHistoryFile: process.env.STATUS_HISTORY_FILE || undefined,
+      watchPollIntervalSeconds: process.env.WATCH_POLL_INTERVAL_SECONDS ? parseInt(process.env.WATCH_POLL_INTERVAL_SECONDS, 10) : undefined,
+      watchTtlMinutes: process.env.WATCH_TTL_MINUTES ? parseInt(process.env.WATCH_TTL_MINUTES, 10) : undefined,
+      httpMaxSessions: process.env.HTTP_MAX_SESSIONS ? parseInt(process.env.HTTP_MAX_SESSIONS, 10) : undefined,
+      httpSessionIdleTimeoutSeconds: process.env.HTTP_SESSION_IDLE_TIMEOUT_SECONDS ? parseInt(process.env.HTTP_SESSION_IDLE_TIMEOUT_SECONDS, 10) : undefined,
+      httpAuthTokens: process.env.HTTP_AUTH_TOKENS
+        ? Object.fromEntries(parseKeyedEntries(process.env.HTTP_AUTH_TOKENS))
+        : undefined,
+      httpIntrospectionUrl: process.env.HTTP_AUTH_INTROSPECTION_URL || undefined,
+      httpIntrospectionClientId: process.env.HTTP_AUTH_INTROSPECTION_CLIENT_ID || undefined,
+      httpIntrospectionClientSecret: process.env.HTTP_AUTH_INTROSPECTION_CLIENT_SECRET || undefined,
+      httpRequiredScopes: parseList(process.env.HTTP_AUTH_REQUIRED_SCOPES),
+      httpAuthorizationServer: process.env.HTTP_AUTH_AUTHORIZATION_SERVER || undefined,
+      // Browsers send origins without a trailing slash
+      httpAllowedOrigins: parseList(process.env.HTTP_ALLOWED_ORIGINS)?.map(origin => origin.replace(/\/+$/, '')),
       defaultLimit: process.env.DEFAULT_LIMIT ? parseInt(process.env.DEFAULT_LIMIT, 10) : undefined,
       debug: process.env.DEBUG === 'true',
     };
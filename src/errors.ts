@@ -0,0 +1,223 @@
+import axios from 'axios';
+import { parseRetryAfter } from './utils/retry.js';
+
+export interface BitsoErrorDetails {
+  code?: string;
+  status?: number;
+  method?: string;
+  path: string;
+}
+
+/**
+ * Base class for every error raised while talking to the Bitso API.
+ * Carries Bitso's own error code (when the response had one), the HTTP status
+ * and the request path, plus a hint the agent can act on.
+ */
+export class BitsoApiError extends Error {
+  readonly code?: string;
+  readonly status?: number;
+  readonly method?: string;
+  readonly path: string;
+  readonly hint: string = 'Retry the request; if it keeps failing, check mcp-debug.log for details.';
+
+  constructor(message: string, details: BitsoErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.code = details.code;
+    this.status = details.status;
+    this.method = details.method;
+    this.path = details.path;
+  }
+}
+
+export class BitsoAuthError extends BitsoApiError {
+  readonly hint = 'Check BITSO_API_KEY and BITSO_API_SECRET, and that the API key has permission for this endpoint.';
+}
+
+export class BitsoInvalidNonceError extends BitsoApiError {
+  readonly hint = 'The request nonce was rejected. Make sure no other process is using the same API key concurrently and that the system clock is correct.';
+}
+
+export class BitsoRateLimitError extends BitsoApiError {
+  readonly hint = 'Bitso rate limit reached. Wait before retrying and reduce the number of parallel requests.';
+
+  constructor(message: string, details: BitsoErrorDetails, readonly retryAfterMs?: number) {
+    super(message, details);
+  }
+}
+
+export class BitsoNotFoundError extends BitsoApiError {
+  readonly hint = 'The requested resource does not exist. Double-check the ID and that it belongs to this account.';
+}
+
+export class BitsoValidationError extends BitsoApiError {
+  readonly hint = 'Bitso rejected the request parameters. Check the parameter names, formats and allowed values.';
+}
+
+export class BitsoServerError extends BitsoApiError {
+  readonly hint = 'Bitso is having trouble or could not be reached. Try again in a few moments.';
+}
+
+/**
+ * Base class for errors raised locally, before any request reaches Bitso.
+ * Like BitsoApiError, each carries a hint the agent can act on.
+ */
+export class BitsoPreconditionError extends Error {
+  readonly hint: string = 'Check the tool parameters and try again.';
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Raised when a tool would change account state but write operations
+ * have not been enabled in the configuration.
+ */
+export class WriteOperationsDisabledError extends BitsoPreconditionError {
+  readonly hint = 'Write operations are disabled for this account. Set BITSO_ENABLE_WRITE_OPERATIONS=true, and list the account in BITSO_WRITE_ACCOUNTS if that is set, to allow this tool.';
+
+  constructor(operation: string) {
+    super(`Refusing to ${operation}: write operations are disabled`);
+  }
+}
+
+/**
+ * Raised when a confirm token for a write operation is missing, expired or
+ * does not match the request being confirmed.
+ */
+export class ConfirmationError extends BitsoPreconditionError {
+  readonly hint = 'Call the tool again without confirm_token to get a fresh confirmation token, then repeat the exact same request with it.';
+}
+
+/**
+ * Raised when an order breaks the limits Bitso publishes for its book.
+ */
+export class OrderValidationError extends BitsoPreconditionError {
+  readonly hint = 'Adjust the order to the book limits and tick size shown by get_available_books.';
+
+  constructor(readonly problems: string[]) {
+    super(`Order rejected before sending: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Raised when a withdrawal breaks the configured destination allowlist or amount limits.
+ */
+export class WithdrawalPolicyError extends BitsoPreconditionError {
+  readonly hint = 'Withdrawals are limited to destinations in WITHDRAWAL_ALLOWLIST and amounts within WITHDRAWAL_MAX_AMOUNTS. Ask the operator to update the configuration if this withdrawal is intended.';
+}
+
+/**
+ * Raised when a filter value (e.g. a withdrawal method or status) is not one Bitso knows.
+ */
+export class UnknownFilterValueError extends BitsoPreconditionError {
+  readonly hint = 'Use one of the suggested values; get_withdrawal_methods lists every method and network per currency.';
+}
+
+/**
+ * Raised when a tool names an account profile that is not configured.
+ */
+export class UnknownAccountError extends BitsoPreconditionError {
+  readonly hint = 'Use list_accounts to see the configured accounts, or omit account to use the default.';
+}
+
+/**
+ * Raised when a request to the HTTP MCP endpoint fails authorization. Carries the
+ * HTTP status (401 for missing or bad credentials, 403 for insufficient scope) and the
+ * RFC 6750 error code for the WWW-Authenticate challenge, if one applies.
+ */
+export class HttpAuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403,
+    readonly errorCode?: 'invalid_token' | 'insufficient_scope'
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+interface BitsoErrorBody {
+  success?: boolean;
+  error?: {
+    code?: string | number;
+    message?: string;
+  };
+}
+
+/**
+ * Builds a typed error from a Bitso `{ success: false, error: { code, message } }` payload.
+ *
+ * @param body - Parsed response body (may be missing or malformed)
+ * @param details - HTTP status, method and path of the failed request
+ * @param retryAfterMs - Parsed Retry-After value, for rate-limit errors
+ * @returns The most specific BitsoApiError subclass for the failure
+ */
+export function createBitsoError(
+  body: BitsoErrorBody | undefined,
+  details: Omit<BitsoErrorDetails, 'code'>,
+  retryAfterMs?: number
+): BitsoApiError {
+  const code = body?.error?.code !== undefined ? String(body.error.code) : undefined;
+  const bitsoMessage = body?.error?.message;
+  const label = [
+    'Bitso API error',
+    code ? ` ${code}` : '',
+    details.status ? ` (HTTP ${details.status})` : '',
+    ` on ${details.method ? `${details.method} ` : ''}${details.path}`,
+  ].join('');
+  const message = bitsoMessage ? `${label}: ${bitsoMessage}` : label;
+  const fullDetails = { ...details, code };
+
+  if (bitsoMessage && /nonce/i.test(bitsoMessage)) {
+    return new BitsoInvalidNonceError(message, fullDetails);
+  }
+
+  const status = details.status;
+  if (status === 401 || status === 403) {
+    return new BitsoAuthError(message, fullDetails);
+  }
+  if (status === 404) {
+    return new BitsoNotFoundError(message, fullDetails);
+  }
+  if (status === 429) {
+    return new BitsoRateLimitError(message, fullDetails, retryAfterMs);
+  }
+  if (status !== undefined && status >= 500) {
+    return new BitsoServerError(message, fullDetails);
+  }
+  if (status !== undefined && status >= 400) {
+    return new BitsoValidationError(message, fullDetails);
+  }
+
+  return new BitsoApiError(message, fullDetails);
+}
+
+/**
+ * Converts any error thrown by axios into a typed BitsoApiError.
+ * Errors that are already typed are returned unchanged.
+ *
+ * @param error - The error thrown while performing the request
+ * @param method - HTTP method of the request
+ * @param path - Request path (without query string)
+ * @returns A BitsoApiError describing the failure
+ */
+export function toBitsoError(error: unknown, method: string, path: string): BitsoApiError {
+  if (error instanceof BitsoApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new BitsoServerError(`Bitso API request failed on ${method} ${path}: ${error.message}`, { method, path });
+    }
+
+    const retryAfterMs = parseRetryAfter(error.response.headers?.['retry-after']) ?? undefined;
+    return createBitsoError(error.response.data, { status: error.response.status, method, path }, retryAfterMs);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new BitsoApiError(`Bitso API request failed on ${method} ${path}: ${message}`, { method, path });
+}
@@ -0,0 +1,65 @@
+import express, { Express } from 'express';
+import { RESOURCE_METADATA_PATH, requireBearerAuth, resourceMetadataHandler, TokenAuthenticator } from './auth.js';
+import { SessionManager } from './session-manager.js';
+import { createLogger } from './utils/logging.js';
+
+const logToFile = createLogger(import.meta.url, 'HTTP');
+
+export interface HttpAppOptions {
+  /** Requests to /mcp need a bearer token when this has tokens or introspection configured */
+  authenticator?: TokenAuthenticator;
+  /** Browser origins allowed to call the server; requests from any other Origin get 403 */
+  allowedOrigins: string[];
+}
+
+/**
+ * Builds the Express app for HTTP mode, serving MCP at /mcp through the session manager.
+ */
+export function createHttpApp(sessions: SessionManager, options: HttpAppOptions): Express {
+  const app = express();
+
+  app.use(express.json());
+
+  // CORS for allowlisted origins only; other origins are refused outright, which also blocks DNS rebinding
+  app.use((req, res, next) => {
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!options.allowedOrigins.includes(origin)) {
+        logToFile('WARN', 'Rejected request from disallowed origin', { origin, method: req.method, path: req.path });
+        res.status(403).json({ error: 'forbidden', error_description: `Origin ${origin} is not allowed` });
+        return;
+      }
+
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+      res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
+      res.vary('Origin');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+    } else {
+      next();
+    }
+  });
+
+  if (options.authenticator?.enabled) {
+    app.get(RESOURCE_METADATA_PATH, resourceMetadataHandler(options.authenticator));
+    app.use("/mcp", requireBearerAuth(options.authenticator));
+  }
+
+  // MCP endpoint - POST for messages, GET for the notification stream, DELETE to end a session
+  app.all("/mcp", async (req, res) => {
+    try {
+      await sessions.handleRequest(req, res, req.body);
+    } catch (error) {
+      logToFile('ERROR', 'Error handling MCP request', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  });
+
+  return app;
+}
@@ -1,11 +1,11 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { loadConfig } from './config.js';
-import { BitsoApiClient } from './client.js';
-import { registerBitsoTools } from './tools/bitso-tools.js';
+import { AccountRegistry } from './accounts.js';
+import { TokenAuthenticator } from './auth.js';
+import { createMcpServer } from './server.js';
+import { SessionManager } from './session-manager.js';
 import { parseArgs } from 'util';
 
 // Parse command line arguments
@@ -57,7 +57,7 @@ const logFile = getLogFilePath(import.meta.url);
 
 // Load configuration
 let config;
-let client: BitsoApiClient;
+let accounts: AccountRegistry;
 
 try {
   logToFile('INFO', 'Loading configuration...');
@@ -67,45 +67,48 @@ try {
     cacheTtl: config.cacheTtlSeconds 
   });
   
-  logToFile('INFO', 'Initializing Bitso API client...');
-  client = new BitsoApiClient(config);
-  logToFile('INFO', 'Bitso API client initialized');
+  logToFile('INFO', 'Initializing Bitso API clients...');
+  accounts = AccountRegistry.fromConfig(config);
+  logToFile('INFO', 'Bitso API clients initialized', {
+    accounts: accounts.names(),
+    defaultAccount: accounts.defaultAccount
+  });
 } catch (error) {
   logToFile('ERROR', 'Failed to initialize API client', error);
   console.error('Failed to initialize API client:', error);
   process.exit(1);
 }
 
-// Create MCP server
-const server = new McpServer({
-  name: "bitso-mcp-server",
-  version: "1.0.0",
-});
+// Test connection on startup, once per account
+for (const account of accounts.names()) {
+  const client = accounts.get(account);
+  if (!client.hasCredentials()) {
+    logToFile('WARN', 'No Bitso API credentials configured, only public market data tools will work', { account });
+    console.error('Warning: BITSO_API_KEY/BITSO_API_SECRET not set, only public market data tools will work');
+    continue;
+  }
 
-// Test connection on startup
-try {
-  logToFile('INFO', 'Testing connection to API...');
-  const isConnected = await client.testConnection();
-  if (!isConnected) {
-    logToFile('WARN', 'Could not establish connection to API');
-    console.error('Warning: Could not establish connection to API');
-  } else {
-    logToFile('INFO', 'Successfully connected to API');
+  try {
+    logToFile('INFO', 'Testing connection to API...', { account });
+    const isConnected = await client.testConnection();
+    if (!isConnected) {
+      logToFile('WARN', 'Could not establish connection to API', { account });
+      console.error(`Warning: Could not establish connection to API for account '${account}'`);
+    } else {
+      logToFile('INFO', 'Successfully connected to API', { account });
+    }
+  } catch (error) {
+    logToFile('ERROR', 'Connection test failed', { account, error });
+    console.error(`Warning: Connection test failed for account '${account}':`, error);
   }
-} catch (error) {
-  logToFile('ERROR', 'Connection test failed', error);
-  console.error('Warning: Connection test failed:', error);
 }
 
-// Register all tool categories
-registerBitsoTools(server, client);
-
 // Start the server
 logToFile('INFO', `Starting MCP server with ${transport} transport...`);
 
 if (transport === 'stdio') {
   const stdioTransport = new StdioServerTransport();
-  await server.connect(stdioTransport);
+  await createMcpServer(accounts).connect(stdioTransport);
   
   logToFile('INFO', 'MCP server started successfully on stdio', {
     transport: 'stdio',
@@ -115,50 +118,42 @@ if (transport === 'stdio') {
   console.error("Bitso MCP server running on stdio");
   console.error(`Debug logs: ${logFile}`);
 } else if (transport === 'http') {
-  // Create streamable HTTP transport
-  const httpTransport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: () => Math.random().toString(36).substring(7),
-    enableJsonResponse: false
+  // Each HTTP client gets its own session, transport and MCP server
+  const sessions = new SessionManager({
+    createServer: () => createMcpServer(accounts),
+    maxSessions: config.httpMaxSessions,
+    idleTimeoutMs: config.httpSessionIdleTimeoutSeconds * 1000,
   });
   
-  // Connect server to HTTP transport
-  await server.connect(httpTransport);
-  
-  const express = await import('express');
-  const { default: expressApp } = express;
-  const app = expressApp();
-  
-  app.use(express.default.json());
-  
-  // CORS headers for development
-  app.use((req, res, next) => {
-    res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-    if (req.method === 'OPTIONS') {
-      res.sendStatus(200);
-    } else {
-      next();
-    }
+  const authenticator = new TokenAuthenticator({
+    tokens: config.httpAuthTokens,
+    introspection: config.httpIntrospectionUrl
+      ? {
+          url: config.httpIntrospectionUrl,
+          clientId: config.httpIntrospectionClientId,
+          clientSecret: config.httpIntrospectionClientSecret,
+          timeoutMs: config.timeout,
+        }
+      : undefined,
+    requiredScopes: config.httpRequiredScopes,
+    authorizationServer: config.httpAuthorizationServer,
   });
+  if (!authenticator.enabled) {
+    logToFile('WARN', 'HTTP auth is not configured, anyone who can reach the endpoint can use every tool');
+    console.error('Warning: HTTP_AUTH_TOKENS/HTTP_AUTH_INTROSPECTION_URL not set, the HTTP endpoint is unauthenticated');
+  }
   
-  // MCP endpoint - handle both GET (SSE) and POST requests
-  app.all("/mcp", async (req, res) => {
-    try {
-      await httpTransport.handleRequest(req, res, req.body);
-    } catch (error) {
-      logToFile('ERROR', 'Error handling MCP request', error);
-      if (!res.headersSent) {
-        res.status(500).json({ error: 'Internal server error' });
-      }
-    }
-  });
+  const { createHttpApp } = await import('./http-server.js');
+  const app = createHttpApp(sessions, { authenticator, allowedOrigins: config.httpAllowedOrigins });
   
   const httpServer = app.listen(port, () => {
     logToFile('INFO', 'MCP server started successfully on HTTP', {
       transport: 'http',
       port: port,
       endpoint: `http://localhost:${port}/mcp`,
+      maxSessions: config.httpMaxSessions,
+      auth: authenticator.enabled,
+      allowedOrigins: config.httpAllowedOrigins,
       logFile: logFile
     });
 
@@ -171,9 +166,9 @@ if (transport === 'stdio') {
   process.on('SIGINT', () => {
     logToFile('INFO', 'Received SIGINT, shutting down gracefully...');
     httpServer.close(async () => {
-      await httpTransport.close();
-      logToFile('INFO', 'HTTP server and transport closed');
+      await sessions.closeAll();
+      logToFile('INFO', 'HTTP server and sessions closed');
       process.exit(0);
     });
   });
-}
\ No newline at end of file
+}
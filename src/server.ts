@@ -0,0 +1,39 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AccountRegistry } from './accounts.js';
+import { registerBitsoTools } from './tools/bitso-tools.js';
+import { registerBalanceTools } from './tools/balance-tools.js';
+import { registerLedgerTools } from './tools/ledger-tools.js';
+import { registerMarketTools } from './tools/market-tools.js';
+import { registerSummaryTools } from './tools/summary-tools.js';
+import { registerTradingTools } from './tools/trading-tools.js';
+import { registerWithdrawalTools } from './tools/withdrawal-tools.js';
+import { registerMonitoringTools } from './tools/monitoring-tools.js';
+import { registerWatchTools } from './tools/watch-tools.js';
+import { registerAccountTools } from './tools/account-tools.js';
+import { registerCacheTools } from './tools/cache-tools.js';
+
+/**
+ * Creates an MCP server with every tool category registered. Stdio mode uses one;
+ * HTTP mode creates one per session, all sharing the same account clients (and their caches).
+ */
+export function createMcpServer(accounts: AccountRegistry): McpServer {
+  const server = new McpServer({
+    name: "bitso-mcp-server",
+    version: "1.0.0",
+  });
+
+  // Register all tool categories
+  registerBitsoTools(server, accounts);
+  registerBalanceTools(server, accounts);
+  registerLedgerTools(server, accounts);
+  registerMarketTools(server, accounts);
+  registerSummaryTools(server, accounts);
+  registerTradingTools(server, accounts);
+  registerWithdrawalTools(server, accounts);
+  registerMonitoringTools(server, accounts);
+  registerWatchTools(server, accounts);
+  registerAccountTools(server, accounts);
+  registerCacheTools(server, accounts);
+
+  return server;
+}
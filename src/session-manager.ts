@@ -0,0 +1,197 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import crypto from 'crypto';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from './utils/logging.js';
+
+export interface SessionManagerOptions {
+  /** Creates the MCP server for a new session */
+  createServer: () => McpServer;
+  maxSessions: number;
+  /** Sessions with no requests in flight for this long are closed */
+  idleTimeoutMs: number;
+  now?: () => number;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Requests still open, including a GET stream waiting for notifications */
+  openRequests: number;
+  /** Principal that started the session, when HTTP auth is enabled */
+  principal?: string;
+}
+
+type SessionRequest = IncomingMessage & { auth?: AuthInfo };
+
+const principalOf = (req: SessionRequest) => req.auth?.extra?.principal as string | undefined;
+
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Gives each HTTP client its own Streamable HTTP transport and MCP server, keyed by
+ * the `mcp-session-id` header. Session IDs are random UUIDs. Sessions end on DELETE,
+ * when idle past the timeout, or on shutdown, and new ones are refused beyond the cap.
+ * With HTTP auth, a session only accepts requests from the principal that started it.
+ */
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  private initializing = 0;
+  private sweepTimer: NodeJS.Timeout;
+  private now: () => number;
+  private logToFile = createLogger(import.meta.url, 'SESSIONS');
+
+  constructor(private options: SessionManagerOptions) {
+    this.now = options.now ?? Date.now;
+    this.sweepTimer = setInterval(
+      () => void this.closeIdleSessions(),
+      Math.min(options.idleTimeoutMs, MAX_SWEEP_INTERVAL_MS)
+    );
+    this.sweepTimer.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Routes an MCP request to its session's transport, or starts a session for an
+   * initialize request without a session ID.
+   */
+  async handleRequest(req: SessionRequest, res: ServerResponse, body?: unknown): Promise<void> {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.principal !== principalOf(req)) {
+        if (session) {
+          this.logToFile('WARN', 'Session used by a different principal', { sessionId, principal: principalOf(req), owner: session.principal });
+        }
+        // Per the Streamable HTTP spec, 404 tells the client to start a new session
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      await this.track(session, res, () => session.transport.handleRequest(req, res, body));
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    if (this.sessions.size + this.initializing >= this.options.maxSessions) {
+      await this.closeIdleSessions();
+    }
+    if (this.sessions.size + this.initializing >= this.options.maxSessions) {
+      this.logToFile('WARN', 'Session limit reached, refusing new session', { maxSessions: this.options.maxSessions });
+      res.setHeader('Retry-After', '60');
+      this.sendError(res, 503, -32000, `Too many sessions (limit ${this.options.maxSessions}); try again later`);
+      return;
+    }
+
+    await this.startSession(req, res, body);
+  }
+
+  /**
+   * Closes sessions that have had no open requests for longer than the idle timeout.
+   *
+   * @returns The number of sessions closed
+   */
+  async closeIdleSessions(): Promise<number> {
+    const cutoff = this.now() - this.options.idleTimeoutMs;
+    const idle = [...this.sessions.entries()]
+      .filter(([, session]) => session.openRequests === 0 && session.lastActivity <= cutoff);
+
+    for (const [sessionId] of idle) {
+      this.logToFile('INFO', 'Closing idle session', { sessionId });
+      await this.closeSession(sessionId);
+    }
+    return idle.length;
+  }
+
+  /**
+   * Closes every session and stops the idle sweep, for shutdown.
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.closeSession(sessionId);
+    }
+  }
+
+  private async startSession(req: SessionRequest, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.options.createServer();
+    const session: Session = {
+      server,
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        onsessioninitialized: sessionId => {
+          this.sessions.set(sessionId, session);
+          this.logToFile('INFO', 'Session started', { sessionId, principal: session.principal, sessions: this.sessions.size });
+        },
+      }),
+      lastActivity: this.now(),
+      openRequests: 0,
+      principal: principalOf(req),
+    };
+
+    // Covers DELETE, idle expiry and shutdown alike; connect() chains this with the server's own handler
+    session.transport.onclose = () => {
+      const sessionId = session.transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        this.logToFile('INFO', 'Session closed', { sessionId, sessions: this.sessions.size });
+      }
+    };
+
+    this.initializing++;
+    try {
+      await server.connect(session.transport);
+      await this.track(session, res, () => session.transport.handleRequest(req, res, body));
+    } finally {
+      this.initializing--;
+    }
+
+    // A failed initialize never gets a session ID, so nothing else would close it
+    if (!session.transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      this.logToFile('WARN', 'Error closing session', { sessionId, error });
+    }
+  }
+
+  private async track(session: Session, res: ServerResponse, handle: () => Promise<void>): Promise<void> {
+    session.openRequests++;
+    session.lastActivity = this.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = this.now();
+    });
+    await handle();
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }));
+  }
+}
@@ -0,0 +1,48 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AccountRegistry } from "../accounts.js";
+import { ToolResult } from "../types.js";
+import { createLogger } from "../utils/logging.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'ACCOUNT_TOOLS');
+
+export function registerAccountTools(server: McpServer, accounts: AccountRegistry): void {
+  // Tool 1: List accounts
+  server.tool(
+    "list_accounts",
+    {
+      description: "List the configured account profiles, which one is the default, whether each has API credentials, and whether write operations are enabled for it. Pass a profile's name as the account parameter of any other tool to act on that account",
+      inputSchema: {
+        type: "object",
+        properties: {}
+      }
+    },
+    async (): Promise<ToolResult> => {
+      try {
+        logToFile('INFO', 'List accounts tool called');
+
+        const profiles = accounts.list();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: profiles.length,
+                default_account: accounts.defaultAccount,
+                accounts: profiles
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in list_accounts tool', error);
+
+        return toToolError(error, 'Error listing accounts');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All account tools registered successfully');
+}
@@ -0,0 +1,130 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, AccountRegistry, AGGREGATE_ACCOUNT_PROPERTY } from "../accounts.js";
+import { ALL_ACCOUNTS } from "../config.js";
+import { Balance, ToolResult } from "../types.js";
+import { Decimal, formatAmount } from "../utils/decimal.js";
+import { createLogger } from "../utils/logging.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'BALANCE_TOOLS');
+
+const GetBalancesSchema = z.object({
+  account: AccountNameSchema.optional(),
+  currency: z.string().optional(),
+  hide_zero: z.boolean().optional(),
+});
+
+const formatBalance = (balance: Balance) => ({
+  currency: balance.currency,
+  total: balance.total,
+  locked: balance.locked,
+  available: balance.available
+});
+
+/**
+ * Adds up balances per currency across accounts.
+ */
+function combineBalances(balances: Balance[]): Balance[] {
+  const combined = new Map<string, { total: Decimal; locked: Decimal; available: Decimal }>();
+  for (const balance of balances) {
+    const currency = balance.currency.toLowerCase();
+    const sum = combined.get(currency) ?? { total: Decimal.ZERO, locked: Decimal.ZERO, available: Decimal.ZERO };
+    combined.set(currency, {
+      total: sum.total.plus(Decimal.from(balance.total)),
+      locked: sum.locked.plus(Decimal.from(balance.locked)),
+      available: sum.available.plus(Decimal.from(balance.available)),
+    });
+  }
+
+  return [...combined.entries()].map(([currency, sum]) => ({
+    currency,
+    total: formatAmount(sum.total, currency),
+    locked: formatAmount(sum.locked, currency),
+    available: formatAmount(sum.available, currency),
+  }));
+}
+
+export function registerBalanceTools(server: McpServer, accounts: AccountRegistry): void {
+  server.tool(
+    "get_balances",
+    {
+      description: "Get current account balances per currency (total, locked and available). With account 'all', totals are summed across every account profile with a per-account breakdown",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: AGGREGATE_ACCOUNT_PROPERTY,
+          currency: {
+            type: "string",
+            description: "Comma-separated currencies to include (e.g., 'mxn,btc'). Defaults to all"
+          },
+          hide_zero: {
+            type: "boolean",
+            description: "Omit currencies whose total balance is zero (default false)"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetBalancesSchema.parse(params);
+        const aggregate = validatedParams.account === ALL_ACCOUNTS;
+        const clients = accounts.resolve(validatedParams.account);
+        logToFile('INFO', 'Get balances tool called', validatedParams);
+        
+        const currencies = validatedParams.currency
+          ? new Set(validatedParams.currency.split(',').map(c => c.trim().toLowerCase()).filter(Boolean))
+          : undefined;
+        
+        const include = (balance: Balance) =>
+          (!currencies || currencies.has(balance.currency.toLowerCase())) &&
+          (!validatedParams.hide_zero || !Decimal.from(balance.total).isZero());
+        
+        const byAccount = await Promise.all(clients.map(async client => ({
+          account: client.account,
+          balances: (await client.getBalances()).filter(include)
+        })));
+        const balances = aggregate
+          ? combineBalances(byAccount.flatMap(entry => entry.balances))
+          : byAccount[0].balances;
+        
+        if (balances.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No balances found with the specified criteria."
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                account: aggregate ? ALL_ACCOUNTS : clients[0].account,
+                count: balances.length,
+                balances: balances.map(formatBalance),
+                ...(aggregate && {
+                  accounts: byAccount.map(entry => ({
+                    account: entry.account,
+                    balances: entry.balances.map(formatBalance)
+                  }))
+                })
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_balances tool', error);
+        
+        return toToolError(error, 'Error retrieving balances');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All balance tools registered successfully');
+}
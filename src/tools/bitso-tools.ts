@@ -1,12 +1,58 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
 import { BitsoApiClient } from "../client.js";
-import { ToolResult } from "../types.js";
+import { Funding, PaginatedResult, ToolResult, Withdrawal, WithdrawalCatalog } from "../types.js";
+import { CREATED_RANGE_ERROR, DateInputSchema, hasOrderedCreatedRange } from "../utils/dates.js";
+import { describeFundingDestination } from "../utils/funding-destination.js";
 import { createLogger } from "../utils/logging.js";
+import { valueRecords } from "../utils/valuation.js";
+import { toToolError } from "../utils/tool-errors.js";
+import {
+  assertKnownFilterValue,
+  catalogMethodValues,
+  FUNDING_STATUSES,
+  WITHDRAWAL_STATUSES
+} from "../utils/withdrawal-catalog.js";
 
 const logToFile = createLogger(import.meta.url, 'BITSO_TOOLS');
 
+// Upper bound on records a single fetch_all call may pull, to keep responses within context limits
+const MAX_FETCH_ALL_RECORDS = 5000;
+const DEFAULT_FETCH_ALL_RECORDS = 1000;
+
+const QuoteCurrencySchema = z.string().min(1, "Quote currency must not be empty").transform(currency => currency.trim().toLowerCase());
+
+const quoteCurrencyProperty = {
+  quote_currency: {
+    type: "string",
+    description: "Also value each record in this currency (e.g., 'mxn', 'usd') using current Bitso ticker prices, and return a grand total"
+  }
+};
+
+const fetchAllProperties = {
+  fetch_all: {
+    type: "boolean",
+    description: "Follow pagination markers and return all matching records (up to max_records)"
+  },
+  max_records: {
+    type: "number",
+    description: `Maximum records to return when paginating (default ${DEFAULT_FETCH_ALL_RECORDS}, max ${MAX_FETCH_ALL_RECORDS}). Implies fetch_all`,
+    minimum: 1,
+    maximum: MAX_FETCH_ALL_RECORDS
+  },
+  created_after: {
+    type: "string",
+    description: "Only include records created at or after this time: ISO-8601 (e.g. '2025-01-31T00:00:00Z') or relative (e.g. '-24h', '-7d'). Implies fetch_all"
+  },
+  created_before: {
+    type: "string",
+    description: "Only include records created before this time: ISO-8601 or relative (e.g. '-1h'). Implies fetch_all"
+  }
+};
+
 const ListWithdrawalsSchema = z.object({
+  account: AccountNameSchema.optional(),
   currency: z.string().optional(),
   limit: z.number().int().positive().max(100).optional(),
   marker: z.string().optional(),
@@ -14,33 +60,118 @@ const ListWithdrawalsSchema = z.object({
   origin_id: z.string().optional(),
   status: z.string().optional(),
   wid: z.string().optional(),
-});
+  fetch_all: z.boolean().optional(),
+  max_records: z.number().int().positive().max(MAX_FETCH_ALL_RECORDS).optional(),
+  created_after: DateInputSchema.optional(),
+  created_before: DateInputSchema.optional(),
+  quote_currency: QuoteCurrencySchema.optional(),
+}).refine(hasOrderedCreatedRange, CREATED_RANGE_ERROR);
 
 const GetWithdrawalSchema = z.object({
+  account: AccountNameSchema.optional(),
   wid: z.string().min(1, "Withdrawal ID is required"),
+  quote_currency: QuoteCurrencySchema.optional(),
 });
 
 const GetWithdrawalsByIdsSchema = z.object({
+  account: AccountNameSchema.optional(),
   wids: z.string().min(1, "Comma-separated withdrawal IDs are required"),
 });
 
 const GetWithdrawalsByOriginIdsSchema = z.object({
+  account: AccountNameSchema.optional(),
   origin_ids: z.string().min(1, "Comma-separated origin IDs are required"),
 });
 
 const ListFundingsSchema = z.object({
+  account: AccountNameSchema.optional(),
   limit: z.number().int().positive().max(100).optional(),
   marker: z.string().optional(),
   method: z.string().optional(),
   status: z.string().optional(),
   fids: z.string().optional(),
-});
+  fetch_all: z.boolean().optional(),
+  max_records: z.number().int().positive().max(MAX_FETCH_ALL_RECORDS).optional(),
+  created_after: DateInputSchema.optional(),
+  created_before: DateInputSchema.optional(),
+  quote_currency: QuoteCurrencySchema.optional(),
+}).refine(hasOrderedCreatedRange, CREATED_RANGE_ERROR);
 
 const GetFundingSchema = z.object({
+  account: AccountNameSchema.optional(),
   fid: z.string().min(1, "Funding ID is required"),
+  quote_currency: QuoteCurrencySchema.optional(),
 });
 
-export function registerBitsoTools(server: McpServer, client: BitsoApiClient): void {
+/**
+ * Rejects withdrawal method/status filters that Bitso would silently match nothing for,
+ * suggesting close matches. Methods are checked against the cached withdrawal catalog
+ * (scoped to the currency when one is given). When the method cannot be checked, because
+ * the catalog or some of its currencies failed to load, it is passed through rather than
+ * blocking the listing, and the returned warning says so.
+ *
+ * @returns A warning when the method filter could not be validated
+ */
+async function checkWithdrawalFilters(
+  client: BitsoApiClient,
+  filters: { currency?: string; method?: string; status?: string }
+): Promise<string | undefined> {
+  if (filters.status) {
+    assertKnownFilterValue('status', filters.status, WITHDRAWAL_STATUSES);
+  }
+  if (!filters.method) {
+    return undefined;
+  }
+
+  let catalog: WithdrawalCatalog;
+  try {
+    catalog = await client.getWithdrawalCatalog(filters.currency);
+  } catch (error) {
+    logToFile('WARN', 'Withdrawal catalog unavailable, skipping method validation', error);
+    return `Method '${filters.method}' was not validated: the withdrawal methods catalog could not be loaded`;
+  }
+
+  const methods = catalogMethodValues(catalog.methods);
+  if (methods.includes(filters.method.toLowerCase())) {
+    return undefined;
+  }
+  if (catalog.unavailable.length > 0 || methods.length === 0) {
+    logToFile('WARN', 'Withdrawal catalog incomplete, skipping method validation', { unavailable: catalog.unavailable });
+    return `Method '${filters.method}' was not validated: withdrawal methods could not be loaded for ${catalog.unavailable.join(', ') || 'any currency'}`;
+  }
+  assertKnownFilterValue('method', filters.method, methods);
+  return undefined;
+}
+
+const GetFundingDestinationSchema = z.object({
+  account: AccountNameSchema.optional(),
+  currency: z.string().min(1, "Currency is required").transform(currency => currency.trim().toLowerCase()),
+  network: z.string().min(1).transform(network => network.trim().toLowerCase()).optional(),
+});
+
+function formatPagination(result: PaginatedResult<unknown>, createdAfter?: Date, createdBefore?: Date): Record<string, unknown> {
+  return {
+    pages_fetched: result.pagesFetched,
+    truncated: result.truncated,
+    next_marker: result.nextMarker ?? null,
+    ...(createdAfter || createdBefore ? {
+      created_after: createdAfter?.toISOString() ?? null,
+      created_before: createdBefore?.toISOString() ?? null
+    } : {})
+  };
+}
+
+function formatValuationLine({ valuations, summary }: Awaited<ReturnType<typeof valueRecords>>): string {
+  const valuation = valuations[0];
+  if (!valuation) {
+    return `Value (${summary.quote_currency.toUpperCase()}): unavailable, no Bitso book route to ${summary.quote_currency}`;
+  }
+  const route = valuation.route.length > 0 ? ` via ${valuation.route.join(' -> ')}` : '';
+  return `Value (${summary.quote_currency.toUpperCase()}): ${valuation.value} at rate ${valuation.rate}${route} ` +
+    `(${summary.price_source.source}${summary.price_source.as_of ? `, as of ${summary.price_source.as_of}` : ''})`;
+}
+
+export function registerBitsoTools(server: McpServer, accounts: AccountRegistry): void {
   // Tool 1: List withdrawals
   server.tool(
     "list_withdrawals",
@@ -49,6 +180,7 @@ export function registerBitsoTools(server: McpServer, client: BitsoApiClient): v
       inputSchema: {
         type: "object",
         properties: {
+          account: ACCOUNT_PROPERTY,
           currency: {
             type: "string",
             description: "Filter by transaction currency"
@@ -65,7 +197,7 @@ export function registerBitsoTools(server: McpServer, client: BitsoApiClient): v
           },
           method: {
             type: "string",
-            description: "Filter by withdrawal method"
+            description: "Filter by withdrawal method or network (e.g., 'sp' for SPEI, 'btc'); see get_withdrawal_methods"
           },
           origin_id: {
             type: "string",
@@ -73,41 +205,66 @@ export function registerBitsoTools(server: McpServer, client: BitsoApiClient): v
           },
           status: {
             type: "string",
-            description: "Filter by withdrawal status"
+            description: `Filter by withdrawal status (${WITHDRAWAL_STATUSES.join(', ')})`
           },
           wid: {
             type: "string",
             description: "Filter by specific withdrawal ID"
-          }
+          },
+          ...fetchAllProperties,
+          ...quoteCurrencyProperty
         }
       }
     },
     async (params): Promise<ToolResult> => {
       try {
         const validatedParams = ListWithdrawalsSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
         logToFile('INFO', 'List withdrawals tool called', validatedParams);
+        const warning = await checkWithdrawalFilters(client, validatedParams);
         
-        const response = await client.getWithdrawals(validatedParams);
+        const { account, fetch_all, max_records, created_after, created_before, quote_currency, ...queryParams } = validatedParams;
+        let withdrawals: Withdrawal[];
+        let pagination: Record<string, unknown> | undefined;
         
-        if (!response.success || !response.payload || response.payload.length === 0) {
+        if (fetch_all || max_records !== undefined || created_after || created_before) {
+          const { limit, marker, ...filters } = queryParams;
+          const result = await client.getAllWithdrawals(filters, {
+            marker,
+            maxRecords: max_records ?? DEFAULT_FETCH_ALL_RECORDS,
+            range: { after: created_after, before: created_before }
+          });
+          withdrawals = result.items;
+          pagination = formatPagination(result, created_after, created_before);
+        } else {
+          const response = await client.getWithdrawals(queryParams);
+          withdrawals = response.success && response.payload ? response.payload : [];
+        }
+        
+        if (withdrawals.length === 0) {
           return {
             content: [
               {
                 type: "text",
-                text: "No withdrawals found with the specified criteria."
+                text: `No withdrawals found with the specified criteria.${warning ? `\n\nWarning: ${warning}` : ''}`
               }
             ]
           };
         }
         
+        const valuation = quote_currency ? await valueRecords(client, withdrawals, quote_currency) : undefined;
+        
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify({
                 success: true,
-                count: response.payload.length,
-                withdrawals: response.payload.map(withdrawal => ({
+                count: withdrawals.length,
+                ...(warning ? { warning } : {}),
+                ...(pagination ? { pagination } : {}),
+                ...(valuation ? { valuation: valuation.summary } : {}),
+                withdrawals: withdrawals.map((withdrawal, index) => ({
                   wid: withdrawal.wid,
                   status: withdrawal.status,
                   currency: withdrawal.currency,
@@ -117,7 +274,8 @@ export function registerBitsoTools(server: McpServer, client: BitsoApiClient): v
                   origin_id: withdrawal.origin_id || null,
                   asset: withdrawal.asset || null,
                   network: withdrawal.network || null,
-                  protocol: withdrawal.protocol || null
+                  protocol: withdrawal.protocol || null,
+                  ...(valuation ? { valuation: valuation.valuations[index] } : {})
                 }))
               }, null, 2)
             }
@@ -126,26 +284,7 @@ export function registerBitsoTools(server: McpServer, client: BitsoApiClient): v
       } catch (error) {
         logToFile('ERROR', 'Error in list_withdrawals tool', error);
         
-        if (error instanceof z.ZodError) {
-          const errorMessage = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Validation error: ${errorMessage}`
-              }
-            ]
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing withdrawals: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toToolError(error, 'Error listing withdrawals');
       }
     }
   );
@@ -158,10 +297,12 @@ export function registerBitsoTools(server: McpServer, client: BitsoApiClient): v
       inputSchema: {
         type: "object",
         properties: {
+          account: ACCOUNT_PROPERTY,
           wid: {
             type: "string",
             description: "The withdrawal ID to retrieve"
-          }
+          },
+          ...quoteCurrencyProperty
         },
         required: ["wid"]
       }
@@ -169,9 +310,13 @@ export function registerBitsoTools(server: McpServer, client: BitsoApiClient): v
     async (params): Promise<ToolResult> => {
       try {
         const validatedParams = GetWithdrawalSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
         logToFile('INFO', 'Get withdrawal tool called', { wid: validatedParams.wid });
         
         const withdrawal = await client.getWithdrawal(validatedParams.wid);
+        const valuation = validatedParams.quote_currency
+          ? await valueRecords(client, [withdrawal], validatedParams.quote_currency)
+          : undefined;
         
         return {
           content: [
@@ -188,6 +333,7 @@ ${withdrawal.origin_id ? `Origin ID: ${withdrawal.origin_id}` : ''}
 ${withdrawal.asset ? `Asset: ${withdrawal.asset}` : ''}
 ${withdrawal.network ? `Network: ${withdrawal.network}` : ''}
 ${withdrawal.protocol ? `Protocol: ${withdrawal.protocol}` : ''}
+${valuation ? formatValuationLine(valuation) : ''}
 Details: ${JSON.stringify(withdrawal.details, null, 2)}`
             }
           ]
@@ -195,26 +341,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       } catch (error) {
         logToFile('ERROR', 'Error in get_withdrawal tool', error);
         
-        if (error instanceof z.ZodError) {
-          const errorMessage = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Validation error: ${errorMessage}`
-              }
-            ]
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error retrieving withdrawal: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toToolError(error, 'Error retrieving withdrawal');
       }
     }
   );
@@ -227,6 +354,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       inputSchema: {
         type: "object",
         properties: {
+          account: ACCOUNT_PROPERTY,
           wids: {
             type: "string",
             description: "Comma-separated withdrawal IDs (e.g., 'wid1,wid2,wid3')"
@@ -238,6 +366,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
     async (params): Promise<ToolResult> => {
       try {
         const validatedParams = GetWithdrawalsByIdsSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
         logToFile('INFO', 'Get withdrawals by IDs tool called', { wids: validatedParams.wids });
         
         const response = await client.getWithdrawals({ wid: validatedParams.wids });
@@ -276,26 +405,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       } catch (error) {
         logToFile('ERROR', 'Error in get_withdrawals_by_ids tool', error);
         
-        if (error instanceof z.ZodError) {
-          const errorMessage = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Validation error: ${errorMessage}`
-              }
-            ]
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error retrieving withdrawals: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toToolError(error, 'Error retrieving withdrawals');
       }
     }
   );
@@ -308,6 +418,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       inputSchema: {
         type: "object",
         properties: {
+          account: ACCOUNT_PROPERTY,
           origin_ids: {
             type: "string",
             description: "Comma-separated origin IDs (e.g., 'origin1,origin2,origin3')"
@@ -319,6 +430,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
     async (params): Promise<ToolResult> => {
       try {
         const validatedParams = GetWithdrawalsByOriginIdsSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
         logToFile('INFO', 'Get withdrawals by origin IDs tool called', { origin_ids: validatedParams.origin_ids });
         
         const response = await client.getWithdrawals({ origin_id: validatedParams.origin_ids });
@@ -357,26 +469,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       } catch (error) {
         logToFile('ERROR', 'Error in get_withdrawals_by_origin_ids tool', error);
         
-        if (error instanceof z.ZodError) {
-          const errorMessage = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Validation error: ${errorMessage}`
-              }
-            ]
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error retrieving withdrawals: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toToolError(error, 'Error retrieving withdrawals');
       }
     }
   );
@@ -389,6 +482,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       inputSchema: {
         type: "object",
         properties: {
+          account: ACCOUNT_PROPERTY,
           limit: {
             type: "number",
             description: "Number of objects to return (max 100, default 25)",
@@ -405,23 +499,45 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
           },
           status: {
             type: "string",
-            description: "Filter by funding status"
+            description: `Filter by funding status (${FUNDING_STATUSES.join(', ')})`
           },
           fids: {
             type: "string",
             description: "Comma-separated funding IDs to filter by"
-          }
+          },
+          ...fetchAllProperties,
+          ...quoteCurrencyProperty
         }
       }
     },
     async (params): Promise<ToolResult> => {
       try {
         const validatedParams = ListFundingsSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
         logToFile('INFO', 'List fundings tool called', validatedParams);
+        if (validatedParams.status) {
+          assertKnownFilterValue('status', validatedParams.status, FUNDING_STATUSES);
+        }
         
-        const response = await client.getFundings(validatedParams);
+        const { account, fetch_all, max_records, created_after, created_before, quote_currency, ...queryParams } = validatedParams;
+        let fundings: Funding[];
+        let pagination: Record<string, unknown> | undefined;
         
-        if (!response.success || !response.payload || response.payload.length === 0) {
+        if (fetch_all || max_records !== undefined || created_after || created_before) {
+          const { limit, marker, ...filters } = queryParams;
+          const result = await client.getAllFundings(filters, {
+            marker,
+            maxRecords: max_records ?? DEFAULT_FETCH_ALL_RECORDS,
+            range: { after: created_after, before: created_before }
+          });
+          fundings = result.items;
+          pagination = formatPagination(result, created_after, created_before);
+        } else {
+          const response = await client.getFundings(queryParams);
+          fundings = response.success && response.payload ? response.payload : [];
+        }
+        
+        if (fundings.length === 0) {
           return {
             content: [
               {
@@ -432,21 +548,26 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
           };
         }
         
+        const valuation = quote_currency ? await valueRecords(client, fundings, quote_currency) : undefined;
+        
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify({
                 success: true,
-                count: response.payload.length,
-                fundings: response.payload.map(funding => ({
+                count: fundings.length,
+                ...(pagination ? { pagination } : {}),
+                ...(valuation ? { valuation: valuation.summary } : {}),
+                fundings: fundings.map((funding, index) => ({
                   fid: funding.fid,
                   status: funding.status,
                   currency: funding.currency,
                   amount: funding.amount,
                   method: funding.method,
                   created_at: funding.created_at,
-                  details: funding.details
+                  details: funding.details,
+                  ...(valuation ? { valuation: valuation.valuations[index] } : {})
                 }))
               }, null, 2)
             }
@@ -455,26 +576,7 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       } catch (error) {
         logToFile('ERROR', 'Error in list_fundings tool', error);
         
-        if (error instanceof z.ZodError) {
-          const errorMessage = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Validation error: ${errorMessage}`
-              }
-            ]
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing fundings: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toToolError(error, 'Error listing fundings');
       }
     }
   );
@@ -487,10 +589,12 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
       inputSchema: {
         type: "object",
         properties: {
+          account: ACCOUNT_PROPERTY,
           fid: {
             type: "string",
             description: "The funding ID to retrieve"
-          }
+          },
+          ...quoteCurrencyProperty
         },
         required: ["fid"]
       }
@@ -498,9 +602,13 @@ Details: ${JSON.stringify(withdrawal.details, null, 2)}`
     async (params): Promise<ToolResult> => {
       try {
         const validatedParams = GetFundingSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
         logToFile('INFO', 'Get funding tool called', { fid: validatedParams.fid });
         
         const funding = await client.getFunding(validatedParams.fid);
+        const valuation = validatedParams.quote_currency
+          ? await valueRecords(client, [funding], validatedParams.quote_currency)
+          : undefined;
         
         return {
           content: [
@@ -513,6 +621,7 @@ Currency: ${funding.currency}
 Amount: ${funding.amount}
 Method: ${funding.method}
 Created: ${funding.created_at}
+${valuation ? formatValuationLine(valuation) : ''}
 Details: ${JSON.stringify(funding.details, null, 2)}`
             }
           ]
@@ -520,26 +629,54 @@ Details: ${JSON.stringify(funding.details, null, 2)}`
       } catch (error) {
         logToFile('ERROR', 'Error in get_funding tool', error);
         
-        if (error instanceof z.ZodError) {
-          const errorMessage = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Validation error: ${errorMessage}`
-              }
-            ]
-          };
-        }
-        
+        return toToolError(error, 'Error retrieving funding');
+      }
+    }
+  );
+
+  // Tool 7: Funding destination (deposit address or CLABE)
+  server.tool(
+    "get_funding_destination",
+    {
+      description: "Get where to send a deposit: the address (or CLABE for MXN) for a currency and network, plus any destination tag or memo. When a warning is returned, it must be shown to the user verbatim: deposits without the tag or memo can be lost",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          currency: {
+            type: "string",
+            description: "Currency to deposit (e.g., 'usdc', 'mxn')"
+          },
+          network: {
+            type: "string",
+            description: "Network to deposit on (e.g., 'polygon', 'erc20'); see get_withdrawal_methods for a currency's networks"
+          }
+        },
+        required: ["currency"]
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetFundingDestinationSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get funding destination tool called', validatedParams);
+
+        const raw = await client.getFundingDestination(validatedParams.currency, validatedParams.network);
+        const destination = describeFundingDestination(validatedParams.currency, validatedParams.network, raw);
+        const details = JSON.stringify({ success: true, ...destination }, null, 2);
+
         return {
           content: [
             {
               type: "text",
-              text: `Error retrieving funding: ${error instanceof Error ? error.message : String(error)}`
+              text: destination.warning ? `WARNING - ${destination.warning}\n\n${details}` : details
             }
           ]
         };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_funding_destination tool', error);
+
+        return toToolError(error, 'Error retrieving funding destination');
       }
     }
   );
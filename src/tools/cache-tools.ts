@@ -0,0 +1,112 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
+import { ToolResult } from "../types.js";
+import { createLogger } from "../utils/logging.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'CACHE_TOOLS');
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+// Endpoint names are shorthand for their key prefix, so 'withdrawals' matches '/api/v3/withdrawals...'
+const CachePrefixSchema = z.string().min(1).transform(prefix => {
+  const trimmed = prefix.trim();
+  return trimmed.startsWith('/') ? trimmed : `/api/v3/${trimmed}`;
+});
+
+const CacheControlSchema = z.object({
+  account: AccountNameSchema.optional(),
+  action: z.enum(['stats', 'list', 'invalidate']),
+  prefix: CachePrefixSchema.optional(),
+  all: z.boolean().optional(),
+  limit: z.number().int().positive().max(MAX_LIST_LIMIT).optional(),
+}).refine(params => params.action !== 'invalidate' || Boolean(params.prefix) !== Boolean(params.all), {
+  message: 'To invalidate, provide either prefix or all: true',
+});
+
+export function registerCacheTools(server: McpServer, accounts: AccountRegistry): void {
+  // Tool 1: Cache control
+  server.tool(
+    "cache_control",
+    {
+      description: "Inspect or invalidate the server's cache of Bitso API responses: 'stats' reports size, bounds and hit/miss counts, 'list' shows cached entries with their expiry, and 'invalidate' drops entries by endpoint or key prefix (or all of them) so the next call fetches fresh data",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          action: {
+            type: "string",
+            enum: ["stats", "list", "invalidate"],
+            description: "What to do"
+          },
+          prefix: {
+            type: "string",
+            description: "Endpoint name (e.g., 'withdrawals', 'balance') or cache key prefix (e.g., '/api/v3/withdrawals/wid123') to list or invalidate"
+          },
+          all: {
+            type: "boolean",
+            description: "With invalidate, drop every cached entry"
+          },
+          limit: {
+            type: "number",
+            description: `Maximum entries to list (default ${DEFAULT_LIST_LIMIT}, max ${MAX_LIST_LIMIT})`,
+            minimum: 1,
+            maximum: MAX_LIST_LIMIT
+          }
+        },
+        required: ["action"]
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = CacheControlSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Cache control tool called', validatedParams);
+
+        let result: Record<string, unknown>;
+        switch (validatedParams.action) {
+          case 'stats':
+            result = { stats: client.getCacheStats() };
+            break;
+          case 'list': {
+            const entries = client.listCacheEntries(validatedParams.prefix);
+            result = {
+              count: entries.length,
+              entries: entries.slice(0, validatedParams.limit ?? DEFAULT_LIST_LIMIT)
+            };
+            break;
+          }
+          case 'invalidate':
+            result = {
+              prefix: validatedParams.prefix ?? null,
+              removed: client.invalidateCache(validatedParams.prefix),
+              stats: client.getCacheStats()
+            };
+            break;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                account: client.account,
+                action: validatedParams.action,
+                ...result
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in cache_control tool', error);
+
+        return toToolError(error, 'Error controlling cache');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All cache tools registered successfully');
+}
@@ -0,0 +1,129 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
+import { LedgerEntry, ToolResult } from "../types.js";
+import { flattenLedgerEntries } from "../utils/ledger.js";
+import { createLogger } from "../utils/logging.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'LEDGER_TOOLS');
+
+const MAX_LEDGER_RECORDS = 5000;
+const DEFAULT_LEDGER_RECORDS = 1000;
+
+const GetLedgerSchema = z.object({
+  account: AccountNameSchema.optional(),
+  operation: z.enum(['trades', 'fees', 'fundings', 'withdrawals']).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+  marker: z.string().optional(),
+  sort: z.enum(['asc', 'desc']).optional(),
+  fetch_all: z.boolean().optional(),
+  max_records: z.number().int().positive().max(MAX_LEDGER_RECORDS).optional(),
+});
+
+export function registerLedgerTools(server: McpServer, accounts: AccountRegistry): void {
+  server.tool(
+    "get_ledger",
+    {
+      description: "List account ledger entries (trades, fees, fundings, withdrawals), one row per balance update with the tid/oid/fid/wid they reference",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          operation: {
+            type: "string",
+            enum: ["trades", "fees", "fundings", "withdrawals"],
+            description: "Only return entries of this operation type"
+          },
+          limit: {
+            type: "number",
+            description: "Number of entries to return (max 100, default 25)",
+            minimum: 1,
+            maximum: 100
+          },
+          marker: {
+            type: "string",
+            description: "Pagination marker (entry ID)"
+          },
+          sort: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description: "Sort order by creation time (default desc)"
+          },
+          fetch_all: {
+            type: "boolean",
+            description: "Follow pagination markers and return all matching entries (up to max_records)"
+          },
+          max_records: {
+            type: "number",
+            description: `Maximum entries to return when paginating (default ${DEFAULT_LEDGER_RECORDS}, max ${MAX_LEDGER_RECORDS}). Implies fetch_all`,
+            minimum: 1,
+            maximum: MAX_LEDGER_RECORDS
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetLedgerSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get ledger tool called', validatedParams);
+        
+        const { account, fetch_all, max_records, ...queryParams } = validatedParams;
+        let entries: LedgerEntry[];
+        let pagination: Record<string, unknown> | undefined;
+        
+        if (fetch_all || max_records !== undefined) {
+          const { limit, marker, ...filters } = queryParams;
+          const result = await client.getAllLedger(filters, {
+            marker,
+            maxRecords: max_records ?? DEFAULT_LEDGER_RECORDS
+          });
+          entries = result.items;
+          pagination = {
+            pages_fetched: result.pagesFetched,
+            truncated: result.truncated,
+            next_marker: result.nextMarker ?? null
+          };
+        } else {
+          const response = await client.getLedger(queryParams);
+          entries = response.success && response.payload ? response.payload : [];
+        }
+        
+        if (entries.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No ledger entries found with the specified criteria."
+              }
+            ]
+          };
+        }
+        
+        // An entry with several balance updates (e.g. a trade) becomes several rows, so count both
+        const rows = flattenLedgerEntries(entries);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: rows.length,
+                ledger_entry_count: entries.length,
+                ...(pagination ? { pagination } : {}),
+                entries: rows
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_ledger tool', error);
+        
+        return toToolError(error, 'Error retrieving ledger');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All ledger tools registered successfully');
+}
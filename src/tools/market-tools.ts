@@ -0,0 +1,266 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
+import { ToolResult } from "../types.js";
+import { createLogger } from "../utils/logging.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'MARKET_TOOLS');
+
+const BookSchema = z.string().min(1, "Book is required (e.g., 'btc_mxn')").transform(book => book.trim().toLowerCase());
+
+const GetAvailableBooksSchema = z.object({
+  account: AccountNameSchema.optional(),
+});
+
+const GetTickerSchema = z.object({
+  account: AccountNameSchema.optional(),
+  book: BookSchema.optional(),
+});
+
+const GetOrderBookSchema = z.object({
+  account: AccountNameSchema.optional(),
+  book: BookSchema,
+  aggregate: z.boolean().optional(),
+  depth: z.number().int().positive().max(500).optional(),
+});
+
+const GetRecentTradesSchema = z.object({
+  account: AccountNameSchema.optional(),
+  book: BookSchema,
+  marker: z.string().optional(),
+  sort: z.enum(['asc', 'desc']).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export function registerMarketTools(server: McpServer, accounts: AccountRegistry): void {
+  // Tool 1: Available books
+  server.tool(
+    "get_available_books",
+    {
+      description: "List tradeable order books with their minimum/maximum amounts, prices, values and tick size. Public data, no API key needed",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetAvailableBooksSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get available books tool called', validatedParams);
+
+        const books = await client.getAvailableBooks();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: books.length,
+                books: books.map(book => ({
+                  book: book.book,
+                  minimum_amount: book.minimum_amount,
+                  maximum_amount: book.maximum_amount,
+                  minimum_price: book.minimum_price,
+                  maximum_price: book.maximum_price,
+                  minimum_value: book.minimum_value,
+                  maximum_value: book.maximum_value,
+                  tick_size: book.tick_size || null
+                }))
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_available_books tool', error);
+
+        return toToolError(error, 'Error retrieving available books');
+      }
+    }
+  );
+
+  // Tool 2: Ticker
+  server.tool(
+    "get_ticker",
+    {
+      description: "Get the latest price, bid/ask, 24h high/low and volume for one book, or for all books when no book is given. Public data, no API key needed",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          book: {
+            type: "string",
+            description: "Order book (e.g., 'btc_mxn'). Omit to get every book"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetTickerSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get ticker tool called', validatedParams);
+
+        const tickers = validatedParams.book
+          ? [await client.getTicker(validatedParams.book)]
+          : await client.getTickers();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: tickers.length,
+                tickers
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_ticker tool', error);
+
+        return toToolError(error, 'Error retrieving ticker');
+      }
+    }
+  );
+
+  // Tool 3: Order book
+  server.tool(
+    "get_order_book",
+    {
+      description: "Get the current bids and asks for a book. Public data, no API key needed",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          book: {
+            type: "string",
+            description: "Order book (e.g., 'btc_mxn')"
+          },
+          aggregate: {
+            type: "boolean",
+            description: "Aggregate orders by price level (default true). When false, individual orders are returned"
+          },
+          depth: {
+            type: "number",
+            description: "Maximum number of levels to return per side (default 20)",
+            minimum: 1,
+            maximum: 500
+          }
+        },
+        required: ["book"]
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetOrderBookSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get order book tool called', validatedParams);
+
+        const depth = validatedParams.depth ?? 20;
+        const orderBook = await client.getOrderBook(validatedParams.book, validatedParams.aggregate ?? true);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                book: validatedParams.book,
+                updated_at: orderBook.updated_at,
+                sequence: orderBook.sequence,
+                total_asks: orderBook.asks.length,
+                total_bids: orderBook.bids.length,
+                asks: orderBook.asks.slice(0, depth).map(({ price, amount, oid }) => ({ price, amount, ...(oid ? { oid } : {}) })),
+                bids: orderBook.bids.slice(0, depth).map(({ price, amount, oid }) => ({ price, amount, ...(oid ? { oid } : {}) }))
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_order_book tool', error);
+
+        return toToolError(error, 'Error retrieving order book');
+      }
+    }
+  );
+
+  // Tool 4: Recent trades
+  server.tool(
+    "get_recent_trades",
+    {
+      description: "List recent public trades executed on a book. Public data, no API key needed",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          book: {
+            type: "string",
+            description: "Order book (e.g., 'btc_mxn')"
+          },
+          marker: {
+            type: "string",
+            description: "Pagination marker (trade ID)"
+          },
+          sort: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description: "Sort order by trade ID (default desc)"
+          },
+          limit: {
+            type: "number",
+            description: "Number of trades to return (max 100, default 25)",
+            minimum: 1,
+            maximum: 100
+          }
+        },
+        required: ["book"]
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetRecentTradesSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get recent trades tool called', validatedParams);
+
+        const { account, ...tradeParams } = validatedParams;
+        const trades = await client.getPublicTrades(tradeParams);
+
+        if (trades.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No trades found with the specified criteria."
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: trades.length,
+                trades
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_recent_trades tool', error);
+
+        return toToolError(error, 'Error retrieving recent trades');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All market tools registered successfully');
+}
@@ -0,0 +1,210 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
+import { Funding, ToolResult, Withdrawal } from "../types.js";
+import { DateInputSchema, parseDateInput } from "../utils/dates.js";
+import { createLogger } from "../utils/logging.js";
+import { buildTimeline } from "../utils/status-history.js";
+import { findStuckTransactions, IN_FLIGHT_STATUSES } from "../utils/stuck.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'MONITORING_TOOLS');
+
+const MAX_SCAN_RECORDS = 5000;
+const DEFAULT_SCAN_RECORDS = 1000;
+const DEFAULT_LOOKBACK = '-7d';
+
+const FindStuckTransactionsSchema = z.object({
+  account: AccountNameSchema.optional(),
+  type: z.enum(['withdrawals', 'fundings', 'both']).optional(),
+  created_after: DateInputSchema.optional(),
+  currency: z.string().min(1).transform(currency => currency.trim().toLowerCase()).optional(),
+  method: z.string().min(1).transform(method => method.trim().toLowerCase()).optional(),
+  max_records: z.number().int().positive().max(MAX_SCAN_RECORDS).optional(),
+});
+
+const GetTransactionTimelineSchema = z.object({
+  account: AccountNameSchema.optional(),
+  wid: z.string().min(1).optional(),
+  fid: z.string().min(1).optional(),
+  refresh: z.boolean().optional(),
+}).refine(params => Boolean(params.wid) !== Boolean(params.fid), {
+  message: 'Provide exactly one of wid or fid',
+});
+
+export function registerMonitoringTools(server: McpServer, accounts: AccountRegistry): void {
+  // Tool 1: Stuck transaction detector
+  server.tool(
+    "find_stuck_transactions",
+    {
+      description: "Find withdrawals and fundings that have been pending or processing longer than their method's threshold (e.g. SPEI 30 minutes, BTC 2 hours). Returns the offenders oldest first, with their details (tx hash, tracking key) ready for escalation",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          type: {
+            type: "string",
+            enum: ["withdrawals", "fundings", "both"],
+            description: "Which transactions to scan (default both)"
+          },
+          created_after: {
+            type: "string",
+            description: `Only scan transactions created at or after this time: ISO-8601 or relative (default '${DEFAULT_LOOKBACK}')`
+          },
+          currency: {
+            type: "string",
+            description: "Only scan this currency (e.g., 'mxn')"
+          },
+          method: {
+            type: "string",
+            description: "Only scan this method (e.g., 'sp' for SPEI)"
+          },
+          max_records: {
+            type: "number",
+            description: `Maximum pending/processing records to examine per transaction type (default ${DEFAULT_SCAN_RECORDS}, max ${MAX_SCAN_RECORDS})`,
+            minimum: 1,
+            maximum: MAX_SCAN_RECORDS
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = FindStuckTransactionsSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Find stuck transactions tool called', validatedParams);
+
+        const type = validatedParams.type ?? 'both';
+        const createdAfter = validatedParams.created_after ?? parseDateInput(DEFAULT_LOOKBACK);
+        const maxRecords = validatedParams.max_records ?? DEFAULT_SCAN_RECORDS;
+        const { currency, method } = validatedParams;
+        const thresholds = client.getStuckThresholds();
+        const scan: Record<string, unknown> = {};
+
+        // Bitso filters by a single status, so fetch the window once and keep in-flight records
+        const inFlight = (record: Withdrawal | Funding) =>
+          IN_FLIGHT_STATUSES.includes(record.status.toLowerCase()) &&
+          (!method || record.method.toLowerCase() === method) &&
+          (!currency || record.currency.toLowerCase() === currency);
+
+        let withdrawals: Withdrawal[] = [];
+        if (type === 'withdrawals' || type === 'both') {
+          const result = await client.getAllWithdrawals({ currency }, { maxRecords, range: { after: createdAfter }, filter: inFlight });
+          withdrawals = result.items;
+          scan.withdrawals = { in_flight: result.items.length, pages_fetched: result.pagesFetched, truncated: result.truncated };
+        }
+
+        let fundings: Funding[] = [];
+        if (type === 'fundings' || type === 'both') {
+          const result = await client.getAllFundings({}, { maxRecords, range: { after: createdAfter }, filter: inFlight });
+          fundings = result.items;
+          scan.fundings = { in_flight: result.items.length, pages_fetched: result.pagesFetched, truncated: result.truncated };
+        }
+
+        const stuck = findStuckTransactions(withdrawals, fundings, thresholds);
+
+        if (stuck.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No stuck transactions found since ${createdAfter.toISOString()}.`
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: stuck.length,
+                created_after: createdAfter.toISOString(),
+                thresholds_minutes: { ...thresholds.byMethod, default: thresholds.defaultMinutes },
+                scan,
+                transactions: stuck
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in find_stuck_transactions tool', error);
+
+        return toToolError(error, 'Error finding stuck transactions');
+      }
+    }
+  );
+
+  // Tool 2: Status timeline
+  server.tool(
+    "get_transaction_timeline",
+    {
+      description: "Get every status this server has observed for a withdrawal or funding, with when each was first seen and how long it took from created_at to reach a final status. Times are observation times, so they are only as precise as how often the transaction was fetched",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          wid: {
+            type: "string",
+            description: "Withdrawal ID (provide this or fid)"
+          },
+          fid: {
+            type: "string",
+            description: "Funding ID (provide this or wid)"
+          },
+          refresh: {
+            type: "boolean",
+            description: "Fetch the transaction from Bitso first, bypassing the cache, so its current status is recorded (default true)"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetTransactionTimelineSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get transaction timeline tool called', validatedParams);
+
+        const type = validatedParams.wid ? 'withdrawal' : 'funding';
+        const id = (validatedParams.wid ?? validatedParams.fid)!;
+
+        if (validatedParams.refresh ?? true) {
+          await (type === 'withdrawal' ? client.getWithdrawal(id, { fresh: true }) : client.getFunding(id, { fresh: true }));
+        }
+
+        const history = client.getStatusHistory(type, id);
+
+        if (!history) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No status history recorded for ${type} ${id}.`
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                timeline: buildTimeline(history)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_transaction_timeline tool', error);
+
+        return toToolError(error, 'Error getting transaction timeline');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All monitoring tools registered successfully');
+}
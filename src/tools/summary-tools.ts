@@ -0,0 +1,199 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, AccountRegistry, AGGREGATE_ACCOUNT_PROPERTY } from "../accounts.js";
+import { BitsoApiClient } from "../client.js";
+import { ALL_ACCOUNTS } from "../config.js";
+import { DateRange, Funding, PaginatedResult, ToolResult, Withdrawal } from "../types.js";
+import { CREATED_RANGE_ERROR, DateInputSchema, hasOrderedCreatedRange } from "../utils/dates.js";
+import { createLogger } from "../utils/logging.js";
+import { SUMMARY_DIMENSIONS, SummaryDimension, summarizeTransactions } from "../utils/summary.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'SUMMARY_TOOLS');
+
+const MAX_SUMMARY_RECORDS = 20000;
+const DEFAULT_SUMMARY_RECORDS = 5000;
+
+const SummarizeTransactionsSchema = z.object({
+  account: AccountNameSchema.optional(),
+  type: z.enum(['withdrawals', 'fundings', 'both']).optional(),
+  created_after: DateInputSchema.optional(),
+  created_before: DateInputSchema.optional(),
+  currency: z.string().min(1).transform(currency => currency.trim().toLowerCase()).optional(),
+  method: z.string().optional(),
+  status: z.string().optional(),
+  group_by: z.array(z.enum(SUMMARY_DIMENSIONS)).optional(),
+  max_records: z.number().int().positive().max(MAX_SUMMARY_RECORDS).optional(),
+}).refine(hasOrderedCreatedRange, CREATED_RANGE_ERROR);
+
+type SummarizeTransactionsParams = z.infer<typeof SummarizeTransactionsSchema>;
+
+interface AccountTransactions {
+  account: string;
+  withdrawals?: PaginatedResult<Withdrawal>;
+  fundings?: PaginatedResult<Funding>;
+}
+
+function describeFetch(result: PaginatedResult<unknown>): Record<string, unknown> {
+  return {
+    pages_fetched: result.pagesFetched,
+    truncated: result.truncated
+  };
+}
+
+/**
+ * Overall count and totals for one account, for the per-account breakdown.
+ */
+function summarizeAccount(entry: AccountTransactions): Record<string, unknown> {
+  const breakdown: Record<string, unknown> = { account: entry.account };
+  for (const key of ['withdrawals', 'fundings'] as const) {
+    const result = entry[key];
+    if (result) {
+      const { count, totals } = summarizeTransactions(result.items, []);
+      breakdown[key] = { count, totals, ...describeFetch(result) };
+    }
+  }
+  return breakdown;
+}
+
+async function fetchTransactions(
+  client: BitsoApiClient,
+  params: SummarizeTransactionsParams,
+  range: DateRange,
+  maxRecords: number
+): Promise<AccountTransactions> {
+  const type = params.type ?? 'both';
+  const { currency, method, status } = params;
+  const fetched: AccountTransactions = { account: client.account };
+
+  if (type === 'withdrawals' || type === 'both') {
+    fetched.withdrawals = await client.getAllWithdrawals({ currency, method, status }, { maxRecords, range });
+  }
+
+  if (type === 'fundings' || type === 'both') {
+    // The fundings endpoint has no currency filter, so apply it client-side
+    fetched.fundings = await client.getAllFundings({ method, status }, {
+      maxRecords,
+      range,
+      filter: currency ? funding => funding.currency.toLowerCase() === currency : undefined
+    });
+  }
+
+  return fetched;
+}
+
+/**
+ * Summarizes each transaction type over every account fetched, so with several accounts
+ * the totals cover all of them; a type counts as truncated if any account's fetch was.
+ */
+function summarizeFetched(fetched: AccountTransactions[], groupBy: SummaryDimension[]): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const key of ['withdrawals', 'fundings'] as const) {
+    const results = fetched.flatMap(entry => entry[key] ? [entry[key]] : []);
+    if (results.length > 0) {
+      summary[key] = {
+        ...summarizeTransactions(results.flatMap(result => result.items as Array<Withdrawal | Funding>), groupBy),
+        pages_fetched: results.reduce((pages, result) => pages + result.pagesFetched, 0),
+        truncated: results.some(result => result.truncated)
+      };
+    }
+  }
+  return summary;
+}
+
+export function registerSummaryTools(server: McpServer, accounts: AccountRegistry): void {
+  server.tool(
+    "summarize_transactions",
+    {
+      description: "Count and total withdrawals and/or fundings over a date range, grouped by currency, method, status, network and/or day. Fetches all pages server-side so no rows need to be summed in context. With account 'all', totals cover every account profile with a per-account breakdown",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: AGGREGATE_ACCOUNT_PROPERTY,
+          type: {
+            type: "string",
+            enum: ["withdrawals", "fundings", "both"],
+            description: "Which transactions to summarize (default both)"
+          },
+          created_after: {
+            type: "string",
+            description: "Only include transactions created at or after this time: ISO-8601 or relative (e.g. '-24h', '-7d')"
+          },
+          created_before: {
+            type: "string",
+            description: "Only include transactions created before this time: ISO-8601 or relative"
+          },
+          currency: {
+            type: "string",
+            description: "Filter by currency (e.g., 'mxn')"
+          },
+          method: {
+            type: "string",
+            description: "Filter by method (e.g., 'sp' for SPEI)"
+          },
+          status: {
+            type: "string",
+            description: "Filter by status (e.g., 'complete', 'pending')"
+          },
+          group_by: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [...SUMMARY_DIMENSIONS]
+            },
+            description: "Dimensions to group by (default ['currency'])"
+          },
+          max_records: {
+            type: "number",
+            description: `Maximum records to scan per transaction type (default ${DEFAULT_SUMMARY_RECORDS}, max ${MAX_SUMMARY_RECORDS})`,
+            minimum: 1,
+            maximum: MAX_SUMMARY_RECORDS
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = SummarizeTransactionsSchema.parse(params);
+        const aggregate = validatedParams.account === ALL_ACCOUNTS;
+        const clients = accounts.resolve(validatedParams.account);
+        logToFile('INFO', 'Summarize transactions tool called', validatedParams);
+
+        const groupBy = validatedParams.group_by ?? ['currency'];
+        const range: DateRange = { after: validatedParams.created_after, before: validatedParams.created_before };
+        const maxRecords = validatedParams.max_records ?? DEFAULT_SUMMARY_RECORDS;
+
+        // One account at a time, since each walks every page of its own history
+        const fetched: AccountTransactions[] = [];
+        for (const client of clients) {
+          fetched.push(await fetchTransactions(client, validatedParams, range, maxRecords));
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                created_after: range.after?.toISOString() ?? null,
+                created_before: range.before?.toISOString() ?? null,
+                account: aggregate ? ALL_ACCOUNTS : clients[0].account,
+                group_by: groupBy,
+                ...summarizeFetched(fetched, groupBy),
+                ...(aggregate && {
+                  accounts: fetched.map(summarizeAccount)
+                })
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in summarize_transactions tool', error);
+
+        return toToolError(error, 'Error summarizing transactions');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All summary tools registered successfully');
+}
@@ -0,0 +1,688 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
+import { OrderValidationError, WriteOperationsDisabledError } from "../errors.js";
+import { Order, OrderRequest, ToolResult, UserTrade } from "../types.js";
+import { ConfirmationStore } from "../utils/confirmation.js";
+import { PositiveDecimalSchema } from "../utils/decimal.js";
+import { createLogger } from "../utils/logging.js";
+import { estimateOrder, validateOrder } from "../utils/orders.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'TRADING_TOOLS');
+
+const MAX_TRADE_RECORDS = 5000;
+const DEFAULT_TRADE_RECORDS = 1000;
+
+// Statuses of orders still resting on the book, which are the only ones that can be cancelled
+const OPEN_ORDER_STATUSES: readonly string[] = ['queued', 'open', 'partially filled'];
+
+const splitIds = (ids: string) => ids.split(',').map(id => id.trim()).filter(Boolean);
+
+const ListUserTradesSchema = z.object({
+  account: AccountNameSchema.optional(),
+  book: z.string().min(1).transform(book => book.trim().toLowerCase()).optional(),
+  marker: z.string().optional(),
+  sort: z.enum(['asc', 'desc']).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+  fetch_all: z.boolean().optional(),
+  max_records: z.number().int().positive().max(MAX_TRADE_RECORDS).optional(),
+});
+
+const GetOrderTradesSchema = z.object({
+  account: AccountNameSchema.optional(),
+  oid: z.string().min(1).optional(),
+  origin_id: z.string().min(1).optional(),
+}).refine(params => Boolean(params.oid) !== Boolean(params.origin_id), {
+  message: "Provide exactly one of oid or origin_id",
+});
+
+const LookupOrdersSchema = z.object({
+  account: AccountNameSchema.optional(),
+  oids: z.string().optional(),
+  origin_ids: z.string().optional(),
+}).refine(params => Boolean(params.oids?.trim()) || Boolean(params.origin_ids?.trim()), {
+  message: "Provide oids and/or origin_ids",
+});
+
+const ListOpenOrdersSchema = z.object({
+  account: AccountNameSchema.optional(),
+  book: z.string().min(1).transform(book => book.trim().toLowerCase()).optional(),
+  marker: z.string().optional(),
+  sort: z.enum(['asc', 'desc']).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+const CancelOrdersSchema = z.object({
+  account: AccountNameSchema.optional(),
+  oids: z.string().optional(),
+  book: z.string().min(1).transform(book => book.trim().toLowerCase()).optional(),
+  confirm_token: z.string().min(1).optional(),
+}).refine(params => Boolean(params.oids?.trim()) !== Boolean(params.book), {
+  message: "Provide exactly one of oids or book",
+});
+
+const TIME_IN_FORCE = ['goodtillcancelled', 'fillorkill', 'immediateorcancel', 'postonly'] as const;
+
+const PlaceOrderSchema = z.object({
+  account: AccountNameSchema.optional(),
+  book: z.string().min(1).transform(book => book.trim().toLowerCase()),
+  side: z.enum(['buy', 'sell']),
+  type: z.enum(['market', 'limit']),
+  major: PositiveDecimalSchema.optional(),
+  minor: PositiveDecimalSchema.optional(),
+  price: PositiveDecimalSchema.optional(),
+  time_in_force: z.enum(TIME_IN_FORCE).optional(),
+  origin_id: z.string().min(1).max(40).regex(/^[a-zA-Z0-9_-]+$/, "origin_id may only contain letters, digits, '-' and '_'").optional(),
+  dry_run: z.boolean().optional(),
+  confirm_token: z.string().min(1).optional(),
+})
+  .refine(params => (params.major === undefined) !== (params.minor === undefined), {
+    message: "Provide exactly one of major or minor",
+  })
+  .refine(params => params.type === 'market' || params.price !== undefined, {
+    message: "Limit orders require a price",
+    path: ["price"],
+  })
+  .refine(params => params.type === 'limit' || (params.price === undefined && params.time_in_force === undefined), {
+    message: "Market orders do not take a price or time_in_force",
+  });
+
+function formatOrder(order: Order) {
+  return {
+    oid: order.oid,
+    origin_id: order.origin_id || null,
+    book: order.book,
+    side: order.side,
+    type: order.type,
+    status: order.status,
+    price: order.price || null,
+    original_amount: order.original_amount || null,
+    unfilled_amount: order.unfilled_amount || null,
+    original_value: order.original_value || null,
+    time_in_force: order.time_in_force || null,
+    created_at: order.created_at,
+    updated_at: order.updated_at || null
+  };
+}
+
+function formatTrade(trade: UserTrade) {
+  return {
+    tid: trade.tid,
+    oid: trade.oid,
+    origin_id: trade.origin_id || null,
+    book: trade.book,
+    side: trade.side,
+    maker_side: trade.maker_side || null,
+    major: trade.major,
+    minor: trade.minor,
+    price: trade.price,
+    fees_amount: trade.fees_amount,
+    fees_currency: trade.fees_currency,
+    created_at: trade.created_at
+  };
+}
+
+export function registerTradingTools(server: McpServer, accounts: AccountRegistry): void {
+  const confirmations = new ConfirmationStore(accounts.get().getConfirmationTtlSeconds());
+
+  // Tool 1: User trade history
+  server.tool(
+    "list_user_trades",
+    {
+      description: "List the account's executed trades, optionally for one book. Each trade shows the major/minor amounts (signed from the account's perspective), price, fees and the order (oid) it filled",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          book: {
+            type: "string",
+            description: "Filter by order book (e.g., 'btc_mxn')"
+          },
+          marker: {
+            type: "string",
+            description: "Pagination marker (trade ID)"
+          },
+          sort: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description: "Sort order by trade ID (default desc)"
+          },
+          limit: {
+            type: "number",
+            description: "Number of trades to return (max 100, default 25)",
+            minimum: 1,
+            maximum: 100
+          },
+          fetch_all: {
+            type: "boolean",
+            description: "Follow pagination markers and return all matching trades (up to max_records)"
+          },
+          max_records: {
+            type: "number",
+            description: `Maximum trades to return when paginating (default ${DEFAULT_TRADE_RECORDS}, max ${MAX_TRADE_RECORDS}). Implies fetch_all`,
+            minimum: 1,
+            maximum: MAX_TRADE_RECORDS
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = ListUserTradesSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'List user trades tool called', validatedParams);
+
+        const { account, fetch_all, max_records, ...queryParams } = validatedParams;
+        let trades: UserTrade[];
+        let pagination: Record<string, unknown> | undefined;
+
+        if (fetch_all || max_records !== undefined) {
+          const { limit, marker, ...filters } = queryParams;
+          const result = await client.getAllUserTrades(filters, {
+            marker,
+            maxRecords: max_records ?? DEFAULT_TRADE_RECORDS
+          });
+          trades = result.items;
+          pagination = {
+            pages_fetched: result.pagesFetched,
+            truncated: result.truncated,
+            next_marker: result.nextMarker ?? null
+          };
+        } else {
+          const response = await client.getUserTrades(queryParams);
+          trades = response.success && response.payload ? response.payload : [];
+        }
+
+        if (trades.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No trades found with the specified criteria."
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: trades.length,
+                ...(pagination ? { pagination } : {}),
+                trades: trades.map(formatTrade)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in list_user_trades tool', error);
+
+        return toToolError(error, 'Error listing user trades');
+      }
+    }
+  );
+
+  // Tool 2: Trades that filled an order
+  server.tool(
+    "get_order_trades",
+    {
+      description: "Get the trades that filled a specific order, by Bitso order ID (oid) or client-supplied origin_id",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          oid: {
+            type: "string",
+            description: "Bitso order ID"
+          },
+          origin_id: {
+            type: "string",
+            description: "Client-supplied order ID"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetOrderTradesSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get order trades tool called', validatedParams);
+
+        const trades = await client.getOrderTrades(
+          validatedParams.oid ? { oid: validatedParams.oid } : { origin_id: validatedParams.origin_id! }
+        );
+
+        if (trades.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No trades found for the specified order."
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: trades.length,
+                trades: trades.map(formatTrade)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_order_trades tool', error);
+
+        return toToolError(error, 'Error retrieving order trades');
+      }
+    }
+  );
+
+  // Tool 3: Order lookup
+  server.tool(
+    "lookup_orders",
+    {
+      description: "Look up orders (any status) by comma-separated Bitso order IDs and/or client-supplied origin IDs",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          oids: {
+            type: "string",
+            description: "Comma-separated order IDs (e.g., 'oid1,oid2')"
+          },
+          origin_ids: {
+            type: "string",
+            description: "Comma-separated client-supplied order IDs"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = LookupOrdersSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Lookup orders tool called', validatedParams);
+
+        const orders = await client.lookupOrders({
+          oids: validatedParams.oids ? splitIds(validatedParams.oids) : undefined,
+          origin_ids: validatedParams.origin_ids ? splitIds(validatedParams.origin_ids) : undefined
+        });
+
+        if (orders.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No orders found with the specified IDs."
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: orders.length,
+                orders: orders.map(formatOrder)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in lookup_orders tool', error);
+
+        return toToolError(error, 'Error looking up orders');
+      }
+    }
+  );
+
+  // Tool 4: Open orders
+  server.tool(
+    "list_open_orders",
+    {
+      description: "List the account's open (resting) orders, optionally for one book",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          book: {
+            type: "string",
+            description: "Filter by order book (e.g., 'btc_mxn')"
+          },
+          marker: {
+            type: "string",
+            description: "Pagination marker (order ID)"
+          },
+          sort: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description: "Sort order by creation time (default desc)"
+          },
+          limit: {
+            type: "number",
+            description: "Number of orders to return (max 100, default 25)",
+            minimum: 1,
+            maximum: 100
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = ListOpenOrdersSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'List open orders tool called', validatedParams);
+
+        const { account, ...orderParams } = validatedParams;
+        const orders = await client.getOpenOrders(orderParams);
+
+        if (orders.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No open orders found with the specified criteria."
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: orders.length,
+                orders: orders.map(formatOrder)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in list_open_orders tool', error);
+
+        return toToolError(error, 'Error listing open orders');
+      }
+    }
+  );
+
+  // Tool 5: Order cancellation (two-step)
+  server.tool(
+    "cancel_orders",
+    {
+      description: "Cancel open orders by order ID or every open order on a book. Requires write operations to be enabled. The first call cancels nothing: it lists the open orders that would be cancelled (orders already filled or cancelled are reported under not_open) and returns a confirm_token. Only after the user agrees, call again with the same oids/book plus that confirm_token to send the cancellation",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          oids: {
+            type: "string",
+            description: "Comma-separated order IDs to cancel (e.g., 'oid1' or 'oid1,oid2')"
+          },
+          book: {
+            type: "string",
+            description: "Cancel all open orders on this book (e.g., 'btc_mxn')"
+          },
+          confirm_token: {
+            type: "string",
+            description: "Token returned by the previous preview call; send it only once the user has confirmed"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = CancelOrdersSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Cancel orders tool called', validatedParams);
+
+        if (!client.writeOperationsEnabled()) {
+          throw new WriteOperationsDisabledError('cancel orders');
+        }
+
+        // The token is bound to what was asked for; the preview's resolved oids travel with it
+        const request = {
+          account: client.account,
+          oids: validatedParams.oids ? splitIds(validatedParams.oids).sort() : undefined,
+          book: validatedParams.book
+        };
+
+        if (validatedParams.confirm_token) {
+          const oids = confirmations.consume<string[]>(validatedParams.confirm_token, 'cancel_orders', request);
+          const cancelled = await client.cancelOrders(oids);
+          const notCancelled = oids.filter(oid => !cancelled.includes(oid));
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: true,
+                  requested: oids.length,
+                  cancelled_count: cancelled.length,
+                  all_cancelled: notCancelled.length === 0,
+                  cancelled,
+                  not_cancelled: notCancelled
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        // lookupOrders also returns filled and cancelled orders, which are reported rather than cancelled
+        const found = request.book
+          ? await client.getAllOpenOrders({ book: request.book })
+          : await client.lookupOrders({ oids: request.oids });
+        const orders = found.filter(order => OPEN_ORDER_STATUSES.includes(order.status));
+        const notOpen = found
+          .filter(order => !OPEN_ORDER_STATUSES.includes(order.status))
+          .map(order => ({ oid: order.oid, status: order.status }));
+        const oids = orders.map(order => order.oid);
+        const missing = request.book ? [] : request.oids!.filter(oid => !found.some(order => order.oid === oid));
+
+        if (oids.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: true,
+                  message: "No open orders found to cancel.",
+                  ...(notOpen.length > 0 ? { not_open: notOpen } : {}),
+                  ...(missing.length > 0 ? { unknown_oids: missing } : {})
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const ticket = confirmations.issue('cancel_orders', request, oids);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                confirmation_required: true,
+                message: `Nothing has been cancelled yet. ${oids.length} order(s) will be cancelled if you call cancel_orders again with the same parameters and this confirm_token.`,
+                ...ticket,
+                count: orders.length,
+                orders: orders.map(formatOrder),
+                ...(notOpen.length > 0 ? { not_open: notOpen } : {}),
+                ...(missing.length > 0 ? { unknown_oids: missing } : {})
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in cancel_orders tool', error);
+
+        return toToolError(error, 'Error cancelling orders');
+      }
+    }
+  );
+
+  // Tool 6: Order placement (validated, dry-run or two-step)
+  server.tool(
+    "place_order",
+    {
+      description: "Place a market or limit order. The order is first checked against the book's amount, value and price limits and tick size, and the estimated notional and fees are shown. Write operations must be enabled. With dry_run the request that would be sent is returned unsigned and nothing is sent. Otherwise two calls are needed: the first returns the estimate and a confirm_token, and only after the user agrees, the same call with that confirm_token places the order",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          book: {
+            type: "string",
+            description: "Order book (e.g., 'btc_mxn')"
+          },
+          side: {
+            type: "string",
+            enum: ["buy", "sell"],
+            description: "Buy or sell the major currency"
+          },
+          type: {
+            type: "string",
+            enum: ["market", "limit"],
+            description: "Order type"
+          },
+          major: {
+            type: "string",
+            description: "Amount in the major currency (e.g., BTC for btc_mxn). Provide exactly one of major or minor"
+          },
+          minor: {
+            type: "string",
+            description: "Amount in the minor currency (e.g., MXN for btc_mxn)"
+          },
+          price: {
+            type: "string",
+            description: "Limit price in the minor currency (limit orders only)"
+          },
+          time_in_force: {
+            type: "string",
+            enum: [...TIME_IN_FORCE],
+            description: "Limit orders only (default goodtillcancelled)"
+          },
+          origin_id: {
+            type: "string",
+            description: "Client-supplied order ID (up to 40 letters, digits, '-' or '_'), usable with lookup_orders"
+          },
+          dry_run: {
+            type: "boolean",
+            description: "Validate and return the request that would be sent, unsigned, without sending it"
+          },
+          confirm_token: {
+            type: "string",
+            description: "Token returned by the previous preview call; send it only once the user has confirmed"
+          }
+        },
+        required: ["book", "side", "type"]
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = PlaceOrderSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Place order tool called', validatedParams);
+
+        const { account, dry_run, confirm_token, ...fields } = validatedParams;
+        // Drop unset fields so the signed body and the confirmation fingerprint only carry what is sent
+        const order = Object.fromEntries(
+          Object.entries(fields).filter(([, value]) => value !== undefined)
+        ) as unknown as OrderRequest;
+
+        const books = await client.getAvailableBooks();
+        const book = books.find(candidate => candidate.book === order.book);
+        if (!book) {
+          throw new OrderValidationError([`Unknown book '${order.book}'`]);
+        }
+
+        const ticker = order.type === 'market' ? await client.getTicker(order.book) : undefined;
+        const estimate = estimateOrder(order, book, ticker);
+        const problems = validateOrder(order, book, estimate);
+        if (problems.length > 0) {
+          throw new OrderValidationError(problems);
+        }
+
+        if (!client.writeOperationsEnabled()) {
+          throw new WriteOperationsDisabledError('place orders');
+        }
+
+        if (dry_run) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: true,
+                  dry_run: true,
+                  sent: false,
+                  order,
+                  estimate,
+                  request: client.prepareOrderRequest(order)
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (!confirm_token) {
+          const ticket = confirmations.issue('place_order', { ...order, account: client.account }, order);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: true,
+                  confirmation_required: true,
+                  message: "No order has been placed yet. To place it, call place_order again with the same parameters and this confirm_token.",
+                  ...ticket,
+                  order,
+                  estimate
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const confirmedOrder = confirmations.consume<OrderRequest>(confirm_token, 'place_order', { ...order, account: client.account });
+        const oid = await client.placeOrder(confirmedOrder);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                oid,
+                order: confirmedOrder,
+                estimate
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in place_order tool', error);
+
+        return toToolError(error, 'Error placing order');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All trading tools registered successfully');
+}
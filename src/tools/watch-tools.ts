@@ -0,0 +1,273 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
+import { ToolResult } from "../types.js";
+import { createLogger } from "../utils/logging.js";
+import { toToolError } from "../utils/tool-errors.js";
+import { TransactionWatcher, WatchEvent, WatchTarget } from "../utils/watches.js";
+
+const logToFile = createLogger(import.meta.url, 'WATCH_TOOLS');
+
+const MAX_WATCH_TTL_MINUTES = 24 * 60;
+
+const splitIds = (value: string | undefined) =>
+  (value ?? '').split(',').map(id => id.trim()).filter(Boolean);
+
+const WatchTransactionsSchema = z.object({
+  account: AccountNameSchema.optional(),
+  wids: z.string().optional(),
+  fids: z.string().optional(),
+  origin_ids: z.string().optional(),
+  ttl_minutes: z.number().int().positive().max(MAX_WATCH_TTL_MINUTES).optional(),
+}).refine(params => splitIds(params.wids).length + splitIds(params.fids).length + splitIds(params.origin_ids).length > 0, {
+  message: 'Provide at least one wid, fid or origin_id to watch',
+});
+
+const ListWatchesSchema = z.object({
+  account: AccountNameSchema.optional(),
+});
+
+const UnwatchSchema = z.object({
+  account: AccountNameSchema.optional(),
+  watch_ids: z.string().optional(),
+  all: z.boolean().optional(),
+}).refine(params => Boolean(params.all) !== (splitIds(params.watch_ids).length > 0), {
+  message: 'Provide either watch_ids or all: true',
+});
+
+export function registerWatchTools(server: McpServer, accounts: AccountRegistry): void {
+  const settings = accounts.get().getWatchSettings();
+
+  // Status changes reach the client as log messages, plus resources/updated for the transaction's resource
+  server.server.registerCapabilities({ logging: {} });
+
+  const notify = async (event: WatchEvent) => {
+    logToFile('INFO', 'Watch event', { event: event.event, watch_id: event.watch.watch_id, status: event.watch.status });
+    try {
+      await server.server.sendLoggingMessage({ level: 'notice', logger: 'bitso-watch', data: event });
+      if (event.event === 'status_changed' && event.watch.resource_uri) {
+        await server.server.sendResourceUpdated({ uri: event.watch.resource_uri });
+      }
+    } catch (error) {
+      logToFile('WARN', 'Failed to send watch notification', { watch_id: event.watch.watch_id, error });
+    }
+  };
+
+  const watcher = new TransactionWatcher(accounts, { pollIntervalMs: settings.pollIntervalMs, notify });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    watcher.stop();
+    previousOnClose?.();
+  };
+
+  // Resources named in resources/updated notifications
+  server.resource(
+    "withdrawal",
+    new ResourceTemplate("bitso://{account}/withdrawals/{wid}", { list: undefined }),
+    { description: "A withdrawal's current state", mimeType: "application/json" },
+    async (uri, { account, wid }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(await accounts.get(String(account)).getWithdrawal(String(wid), { fresh: true }), null, 2)
+        }
+      ]
+    })
+  );
+
+  server.resource(
+    "funding",
+    new ResourceTemplate("bitso://{account}/fundings/{fid}", { list: undefined }),
+    { description: "A funding's current state", mimeType: "application/json" },
+    async (uri, { account, fid }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(await accounts.get(String(account)).getFunding(String(fid), { fresh: true }), null, 2)
+        }
+      ]
+    })
+  );
+
+  // Tool 1: Watch transactions
+  server.tool(
+    "watch_transactions",
+    {
+      description: `Watch withdrawals and fundings and get notified when their status changes. The server re-fetches them every ${settings.pollIntervalMs / 1000} seconds and sends a log message (logger 'bitso-watch') plus a resources/updated notification for bitso://{account}/withdrawals/{wid} or bitso://{account}/fundings/{fid} on each change. A watch ends when the transaction reaches a final status or expires`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          wids: {
+            type: "string",
+            description: "Comma-separated withdrawal IDs to watch"
+          },
+          fids: {
+            type: "string",
+            description: "Comma-separated funding IDs to watch"
+          },
+          origin_ids: {
+            type: "string",
+            description: "Comma-separated withdrawal origin IDs to watch; these may be watched before the withdrawal exists"
+          },
+          ttl_minutes: {
+            type: "number",
+            description: `Minutes until the watches expire (default ${settings.ttlMinutes}, max ${MAX_WATCH_TTL_MINUTES})`,
+            minimum: 1,
+            maximum: MAX_WATCH_TTL_MINUTES
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = WatchTransactionsSchema.parse(params);
+        const { account } = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Watch transactions tool called', validatedParams);
+
+        const targets: WatchTarget[] = [
+          ...splitIds(validatedParams.wids).map(value => ({ account, kind: 'wid' as const, value })),
+          ...splitIds(validatedParams.fids).map(value => ({ account, kind: 'fid' as const, value })),
+          ...splitIds(validatedParams.origin_ids).map(value => ({ account, kind: 'origin_id' as const, value })),
+        ];
+
+        const result = await watcher.watch(targets, validatedParams.ttl_minutes ?? settings.ttlMinutes);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: result.watching.length,
+                poll_interval_seconds: settings.pollIntervalMs / 1000,
+                watching: result.watching,
+                already_final: result.already_final
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in watch_transactions tool', error);
+
+        return toToolError(error, 'Error watching transactions');
+      }
+    }
+  );
+
+  // Tool 2: List watches
+  server.tool(
+    "list_watches",
+    {
+      description: "List the transactions currently being watched, with their last seen status and expiry",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: {
+            type: "string",
+            description: "Only list watches for this account profile. Defaults to every account"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = ListWatchesSchema.parse(params);
+        logToFile('INFO', 'List watches tool called', validatedParams);
+
+        const watches = watcher.list()
+          .filter(watch => !validatedParams.account || watch.account === validatedParams.account);
+
+        if (watches.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No transactions are being watched."
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: watches.length,
+                watches
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in list_watches tool', error);
+
+        return toToolError(error, 'Error listing watches');
+      }
+    }
+  );
+
+  // Tool 3: Unwatch
+  server.tool(
+    "unwatch",
+    {
+      description: "Stop watching transactions, by watch ID or all at once",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: {
+            type: "string",
+            description: "With all, only stop this account profile's watches. Defaults to every account"
+          },
+          watch_ids: {
+            type: "string",
+            description: "Comma-separated watch IDs from watch_transactions or list_watches (e.g., 'default:wid:abc123,treasury:origin_id:payout-1')"
+          },
+          all: {
+            type: "boolean",
+            description: "Stop every watch"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = UnwatchSchema.parse(params);
+        logToFile('INFO', 'Unwatch tool called', validatedParams);
+
+        const watchIds = validatedParams.all
+          ? watcher.list()
+              .filter(watch => !validatedParams.account || watch.account === validatedParams.account)
+              .map(watch => watch.watch_id)
+          : splitIds(validatedParams.watch_ids);
+        const removed = watcher.unwatch(watchIds);
+        const removedIds = removed.map(watch => watch.watch_id);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: removed.length,
+                removed: removedIds,
+                not_found: watchIds.filter(watchId => !removedIds.includes(watchId))
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in unwatch tool', error);
+
+        return toToolError(error, 'Error removing watches');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All watch tools registered successfully');
+}
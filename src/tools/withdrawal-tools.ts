@@ -0,0 +1,370 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import crypto from "crypto";
+import { z } from "zod";
+import { AccountNameSchema, ACCOUNT_PROPERTY, AccountRegistry } from "../accounts.js";
+import { BitsoApiClient } from "../client.js";
+import { ToolResult, Withdrawal } from "../types.js";
+import { ClabeSchema, validateClabe } from "../utils/clabe.js";
+import { ConfirmationStore } from "../utils/confirmation.js";
+import { PositiveDecimalSchema } from "../utils/decimal.js";
+import { createLogger } from "../utils/logging.js";
+import { toToolError } from "../utils/tool-errors.js";
+
+const logToFile = createLogger(import.meta.url, 'WITHDRAWAL_TOOLS');
+
+const OriginIdSchema = z.string()
+  .min(1)
+  .max(40)
+  .regex(/^[a-zA-Z0-9_-]+$/, "origin_id may only contain letters, digits, '-' and '_'");
+
+const GetWithdrawalMethodsSchema = z.object({
+  account: AccountNameSchema.optional(),
+  currency: z.string().min(1).transform(currency => currency.trim().toLowerCase()).optional(),
+});
+
+const CreateCryptoWithdrawalSchema = z.object({
+  account: AccountNameSchema.optional(),
+  currency: z.string().min(1).transform(currency => currency.trim().toLowerCase()),
+  network: z.string().min(1).transform(network => network.trim().toLowerCase()),
+  address: z.string().min(1).transform(address => address.trim()),
+  amount: PositiveDecimalSchema,
+  tag: z.string().min(1).optional(),
+  origin_id: OriginIdSchema.optional(),
+  confirm_token: z.string().min(1).optional(),
+});
+
+const CreateSpeiWithdrawalSchema = z.object({
+  account: AccountNameSchema.optional(),
+  clabe: ClabeSchema,
+  beneficiary_given_names: z.string().min(1).transform(name => name.trim()),
+  beneficiary_family_names: z.string().min(1).transform(name => name.trim()),
+  amount: PositiveDecimalSchema,
+  notes_ref: z.string().min(1).max(40).optional(),
+  numeric_ref: z.string().regex(/^\d{1,7}$/, "numeric_ref must be 1 to 7 digits").optional(),
+  origin_id: OriginIdSchema.optional(),
+  confirm_token: z.string().min(1).optional(),
+});
+
+interface WithdrawalFlow<T extends { origin_id?: string }> {
+  tool: string;
+  request: T;
+  confirmToken?: string;
+  /** Plain-language description of the transfer for the preview message */
+  summary: string;
+  /** Extra preview fields (e.g. the resolved bank) */
+  preview?: Record<string, unknown>;
+  create: (withdrawal: T & { origin_id: string }) => Promise<Withdrawal>;
+}
+
+function generateOriginId(): string {
+  return `mcp-${crypto.randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Finds a withdrawal previously created with this origin_id, so a repeated
+ * request returns it instead of sending the money twice. Always asks Bitso, since
+ * a cached or in-flight answer may predate the withdrawal.
+ */
+async function findExistingWithdrawal(client: BitsoApiClient, originId: string): Promise<Withdrawal | undefined> {
+  const response = await client.getWithdrawals({ origin_id: originId }, { fresh: true });
+  return (response.payload ?? []).find(withdrawal => withdrawal.origin_id === originId);
+}
+
+function alreadyExistsResult(withdrawal: Withdrawal): ToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          already_exists: true,
+          message: `A withdrawal with origin_id '${withdrawal.origin_id}' already exists; nothing was sent.`,
+          withdrawal
+        }, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Shared flow for money-moving tools, run after the withdrawal policy has passed:
+ * report an existing withdrawal for the origin_id, otherwise preview with a confirm
+ * token, and only send once the same request comes back with that token.
+ */
+async function runWithdrawalFlow<T extends { origin_id?: string }>(
+  client: BitsoApiClient,
+  confirmations: ConfirmationStore,
+  flow: WithdrawalFlow<T>
+): Promise<ToolResult> {
+  if (flow.request.origin_id) {
+    const existing = await findExistingWithdrawal(client, flow.request.origin_id);
+    if (existing) {
+      return alreadyExistsResult(existing);
+    }
+  }
+
+  if (!flow.confirmToken) {
+    const withdrawal = { ...flow.request, origin_id: flow.request.origin_id ?? generateOriginId() };
+    const ticket = confirmations.issue(flow.tool, { ...flow.request, account: client.account }, withdrawal);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            confirmation_required: true,
+            message: `Nothing has been sent yet. To ${flow.summary}, call ${flow.tool} again with the same parameters and this confirm_token. If that call fails, check or retry with origin_id '${withdrawal.origin_id}' so the withdrawal is not sent twice.`,
+            ...ticket,
+            withdrawal,
+            ...flow.preview
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  const withdrawal = confirmations.consume<T & { origin_id: string }>(flow.confirmToken, flow.tool, { ...flow.request, account: client.account });
+
+  // A generated origin_id was not checked above
+  const existing = await findExistingWithdrawal(client, withdrawal.origin_id);
+  if (existing) {
+    return alreadyExistsResult(existing);
+  }
+
+  const created = await flow.create(withdrawal);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          withdrawal: created
+        }, null, 2)
+      }
+    ]
+  };
+}
+
+export function registerWithdrawalTools(server: McpServer, accounts: AccountRegistry): void {
+  const confirmations = new ConfirmationStore(accounts.get().getConfirmationTtlSeconds());
+
+  // Tool 1: Crypto withdrawal (allowlisted, capped, two-step, idempotent by origin_id)
+  server.tool(
+    "create_crypto_withdrawal",
+    {
+      description: "Withdraw crypto to an allowlisted address. Requires write operations to be enabled, and the amount must be within the configured per-currency maximum. The first call sends nothing: it returns the withdrawal to be made, its origin_id and a confirm_token. Only after the user agrees, call again with the same parameters plus that confirm_token. If a confirming call fails or times out, repeat the request with the returned origin_id: an existing withdrawal with that origin_id is reported instead of sending again",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          currency: {
+            type: "string",
+            description: "Currency to withdraw (e.g., 'btc', 'usdt')"
+          },
+          network: {
+            type: "string",
+            description: "Network to send on (e.g., 'btc', 'trc20', 'erc20')"
+          },
+          address: {
+            type: "string",
+            description: "Destination address; must be in the configured allowlist for the currency"
+          },
+          amount: {
+            type: "string",
+            description: "Amount to withdraw, in the withdrawn currency"
+          },
+          tag: {
+            type: "string",
+            description: "Destination tag or memo, for networks that require one"
+          },
+          origin_id: {
+            type: "string",
+            description: "Client-supplied withdrawal ID (up to 40 letters, digits, '-' or '_'); generated when omitted"
+          },
+          confirm_token: {
+            type: "string",
+            description: "Token returned by the previous preview call; send it only once the user has confirmed"
+          }
+        },
+        required: ["currency", "network", "address", "amount"]
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = CreateCryptoWithdrawalSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Create crypto withdrawal tool called', validatedParams);
+
+        const { account, confirm_token, ...request } = validatedParams;
+        client.assertWithdrawalAllowed(request.currency, request.address, request.amount, request.network, request.tag);
+
+        return await runWithdrawalFlow(client, confirmations, {
+          tool: "create_crypto_withdrawal",
+          request,
+          confirmToken: confirm_token,
+          summary: `send ${request.amount} ${request.currency} to ${request.address} on ${request.network}`,
+          create: withdrawal => client.createCryptoWithdrawal(withdrawal)
+        });
+      } catch (error) {
+        logToFile('ERROR', 'Error in create_crypto_withdrawal tool', error);
+
+        return toToolError(error, 'Error creating crypto withdrawal');
+      }
+    }
+  );
+
+  // Tool 2: SPEI withdrawal (CLABE validated locally, same gating as crypto)
+  server.tool(
+    "create_spei_withdrawal",
+    {
+      description: "Withdraw MXN over SPEI to an allowlisted CLABE. The CLABE's length, check digit and bank code are validated before anything is sent. Requires write operations to be enabled and an MXN maximum amount to be configured. Same two-step confirmation and origin_id idempotency as create_crypto_withdrawal",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          clabe: {
+            type: "string",
+            description: "Beneficiary's 18-digit CLABE; must be in the configured allowlist under mxn"
+          },
+          beneficiary_given_names: {
+            type: "string",
+            description: "Beneficiary's given name(s)"
+          },
+          beneficiary_family_names: {
+            type: "string",
+            description: "Beneficiary's family name(s)"
+          },
+          amount: {
+            type: "string",
+            description: "Amount in MXN"
+          },
+          notes_ref: {
+            type: "string",
+            description: "Payment concept shown to the beneficiary (up to 40 characters)"
+          },
+          numeric_ref: {
+            type: "string",
+            description: "SPEI numeric reference (up to 7 digits)"
+          },
+          origin_id: {
+            type: "string",
+            description: "Client-supplied withdrawal ID (up to 40 letters, digits, '-' or '_'); generated when omitted"
+          },
+          confirm_token: {
+            type: "string",
+            description: "Token returned by the previous preview call; send it only once the user has confirmed"
+          }
+        },
+        required: ["clabe", "beneficiary_given_names", "beneficiary_family_names", "amount"]
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = CreateSpeiWithdrawalSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Create SPEI withdrawal tool called', validatedParams);
+
+        const { account, confirm_token, beneficiary_given_names, beneficiary_family_names, ...fields } = validatedParams;
+        const request = {
+          ...fields,
+          recipient_given_names: beneficiary_given_names,
+          recipient_family_names: beneficiary_family_names
+        };
+        client.assertWithdrawalAllowed('mxn', request.clabe, request.amount);
+        const { bank, bank_code } = validateClabe(request.clabe);
+
+        return await runWithdrawalFlow(client, confirmations, {
+          tool: "create_spei_withdrawal",
+          request,
+          confirmToken: confirm_token,
+          summary: `send ${request.amount} MXN to ${beneficiary_given_names} ${beneficiary_family_names} at ${bank} (CLABE ${request.clabe})`,
+          preview: { bank, bank_code },
+          create: withdrawal => client.createSpeiWithdrawal(withdrawal)
+        });
+      } catch (error) {
+        logToFile('ERROR', 'Error in create_spei_withdrawal tool', error);
+
+        return toToolError(error, 'Error creating SPEI withdrawal');
+      }
+    }
+  );
+
+  // Tool 3: Withdrawal methods and fees catalog
+  server.tool(
+    "get_withdrawal_methods",
+    {
+      description: "List the ways each currency can be withdrawn: method codes, networks/protocols, minimum and maximum amounts, fees and required fields. Use it to find valid values for the method filter of list_withdrawals and the network of create_crypto_withdrawal",
+      inputSchema: {
+        type: "object",
+        properties: {
+          account: ACCOUNT_PROPERTY,
+          currency: {
+            type: "string",
+            description: "Only this currency (e.g., 'btc'); omit for every currency"
+          }
+        }
+      }
+    },
+    async (params): Promise<ToolResult> => {
+      try {
+        const validatedParams = GetWithdrawalMethodsSchema.parse(params);
+        const client = accounts.get(validatedParams.account);
+        logToFile('INFO', 'Get withdrawal methods tool called', validatedParams);
+
+        const [catalog, fees] = await Promise.all([
+          client.getWithdrawalCatalog(validatedParams.currency),
+          client.getFees()
+        ]);
+        const currencies = Object.entries(catalog.methods).filter(([, methods]) => methods.length > 0);
+        const unavailable = catalog.unavailable.length > 0 ? { unavailable_currencies: catalog.unavailable } : {};
+
+        if (currencies.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No withdrawal methods found with the specified criteria.${catalog.unavailable.length > 0 ? ` Methods could not be loaded for: ${catalog.unavailable.join(', ')}` : ''}`
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                count: currencies.length,
+                ...unavailable,
+                currencies: Object.fromEntries(currencies.map(([currency, methods]) => [
+                  currency,
+                  methods.map(method => ({
+                    method: method.method,
+                    name: method.name ?? null,
+                    network: method.network ?? null,
+                    protocol: method.protocol ?? null,
+                    asset: method.asset ?? null,
+                    minimum: method.withdrawal_minimum ?? null,
+                    maximum: method.withdrawal_maximum ?? null,
+                    // Per-method fees take precedence over the account's per-currency withdrawal fee
+                    fee: method.fee ?? fees.withdrawal_fees?.[currency] ?? null,
+                    required_fields: method.required_fields ?? []
+                  }))
+                ]))
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logToFile('ERROR', 'Error in get_withdrawal_methods tool', error);
+
+        return toToolError(error, 'Error retrieving withdrawal methods');
+      }
+    }
+  );
+
+  logToFile('INFO', 'All withdrawal tools registered successfully');
+}
@@ -34,6 +34,296 @@ export interface Funding {
   details: Record<string, any>;
 }
 
+export interface Balance {
+  currency: string;
+  total: string;
+  locked: string;
+  available: string;
+  pending_deposit?: string;
+  pending_withdrawal?: string;
+}
+
+export type LedgerOperation = 'trades' | 'fees' | 'fundings' | 'withdrawals';
+
+export interface LedgerBalanceUpdate {
+  currency: string;
+  amount: string;
+}
+
+export interface LedgerEntry {
+  eid: string;
+  operation: string;
+  created_at: string;
+  balance_updates: LedgerBalanceUpdate[];
+  details: Record<string, any>;
+}
+
+/**
+ * One balance update of a ledger entry, flattened with the IDs needed to
+ * cross-reference it to its trade, order, funding (`fid`) or withdrawal (`wid`).
+ */
+export interface FlatLedgerEntry {
+  eid: string;
+  operation: string;
+  created_at: string;
+  currency: string;
+  amount: string;
+  tid?: string;
+  oid?: string;
+  fid?: string;
+  wid?: string;
+}
+
+export interface LedgerListParams {
+  operation?: LedgerOperation;
+  limit?: number;
+  marker?: string;
+  sort?: 'asc' | 'desc';
+}
+
+export interface AvailableBook {
+  book: string;
+  minimum_amount: string;
+  maximum_amount: string;
+  minimum_price: string;
+  maximum_price: string;
+  minimum_value: string;
+  maximum_value: string;
+  tick_size?: string;
+  default_chart?: string;
+  fees?: {
+    flat_rate?: {
+      maker: string;
+      taker: string;
+    };
+    structure?: Array<{
+      volume: string;
+      maker: string;
+      taker: string;
+    }>;
+  };
+}
+
+export interface Ticker {
+  book: string;
+  volume: string;
+  high: string;
+  last: string;
+  low: string;
+  vwap: string;
+  ask: string;
+  bid: string;
+  created_at: string;
+  change_24?: string;
+}
+
+export interface OrderBookEntry {
+  book: string;
+  price: string;
+  amount: string;
+  oid?: string;
+}
+
+export interface OrderBook {
+  asks: OrderBookEntry[];
+  bids: OrderBookEntry[];
+  updated_at: string;
+  sequence: string;
+}
+
+export interface PublicTrade {
+  book: string;
+  created_at: string;
+  amount: string;
+  maker_side: 'buy' | 'sell';
+  price: string;
+  tid: number;
+}
+
+export interface PublicTradeListParams {
+  book: string;
+  marker?: string;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface UserTrade {
+  book: string;
+  tid: number;
+  oid: string;
+  origin_id?: string;
+  side: 'buy' | 'sell';
+  maker_side?: 'buy' | 'sell';
+  major: string;
+  minor: string;
+  price: string;
+  fees_amount: string;
+  fees_currency: string;
+  created_at: string;
+}
+
+export interface UserTradeListParams {
+  book?: string;
+  marker?: string;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface Order {
+  oid: string;
+  origin_id?: string;
+  book: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit' | string;
+  status: 'queued' | 'open' | 'partially filled' | 'completed' | 'cancelled' | string;
+  price?: string;
+  original_amount?: string;
+  unfilled_amount?: string;
+  original_value?: string;
+  time_in_force?: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type OrderTimeInForce = 'goodtillcancelled' | 'fillorkill' | 'immediateorcancel' | 'postonly';
+
+/**
+ * Body of POST /api/v3/orders. Exactly one of major or minor is set;
+ * price and time_in_force only apply to limit orders.
+ */
+export interface OrderRequest {
+  book: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  major?: string;
+  minor?: string;
+  price?: string;
+  time_in_force?: OrderTimeInForce;
+  origin_id?: string;
+}
+
+/**
+ * Options for client reads that are normally served from the cache.
+ */
+export interface FetchOptions {
+  /** Skip the cached copy and fetch from Bitso (the fresh result is cached) */
+  fresh?: boolean;
+}
+
+/**
+ * An HTTP request as it would be sent, returned by dry runs. It is never signed: the
+ * Authorization header only shows its format, and `string_to_sign` is the HMAC input
+ * with '<nonce>' standing in for the nonce chosen at send time.
+ */
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  path: string;
+  headers: Record<string, string>;
+  body?: string;
+  string_to_sign: string;
+}
+
+/**
+ * Body of POST /api/v3/withdrawal for crypto withdrawals.
+ */
+export interface CryptoWithdrawalRequest {
+  currency: string;
+  network: string;
+  address: string;
+  amount: string;
+  tag?: string;
+  origin_id: string;
+}
+
+/**
+ * Body of POST /api/v3/spei_withdrawal for MXN withdrawals to a CLABE.
+ */
+export interface SpeiWithdrawalRequest {
+  recipient_given_names: string;
+  recipient_family_names: string;
+  clabe: string;
+  amount: string;
+  notes_ref?: string;
+  numeric_ref?: string;
+  origin_id: string;
+}
+
+/**
+ * One way of withdrawing a currency, from GET /api/v3/withdrawal_methods/{currency}.
+ */
+export interface WithdrawalMethod {
+  method: string;
+  name?: string;
+  currency?: string;
+  network?: string;
+  protocol?: string;
+  asset?: string;
+  withdrawal_minimum?: string;
+  withdrawal_maximum?: string;
+  fee?: string;
+  required_fields?: string[];
+}
+
+/**
+ * Withdrawal methods per currency, plus the currencies whose methods could not be fetched.
+ */
+export interface WithdrawalCatalog {
+  methods: Record<string, WithdrawalMethod[]>;
+  unavailable: string[];
+}
+
+/**
+ * Where to send a deposit, from GET /api/v3/funding_destination. For some networks
+ * the tag is embedded in the identifier (e.g. 'rAddress?dt=12345' for XRP).
+ */
+export interface FundingDestination {
+  account_identifier_name: string;
+  account_identifier: string;
+  network?: string;
+  tag?: string;
+  memo?: string;
+}
+
+/**
+ * Account fees from GET /api/v3/fees. Withdrawal fees are keyed by currency.
+ */
+export interface AccountFees {
+  fees?: Array<{
+    book: string;
+    fee_percent?: string;
+    fee_decimal?: string;
+    maker_fee_percent?: string;
+    taker_fee_percent?: string;
+  }>;
+  withdrawal_fees: Record<string, string>;
+}
+
+export interface OpenOrderListParams {
+  book?: string;
+  marker?: string;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface WithdrawalListParams {
+  currency?: string;
+  limit?: number;
+  marker?: string;
+  method?: string;
+  origin_id?: string;
+  status?: string;
+  wid?: string;
+}
+
+export interface FundingListParams {
+  limit?: number;
+  marker?: string;
+  method?: string;
+  status?: string;
+  fids?: string;
+}
+
 export interface WithdrawalListResponse {
   success: boolean;
   payload: Withdrawal[];
@@ -42,4 +332,45 @@ export interface WithdrawalListResponse {
 export interface FundingListResponse {
   success: boolean;
   payload: Funding[];
+}
+
+export interface LedgerListResponse {
+  success: boolean;
+  payload: LedgerEntry[];
+}
+
+export interface UserTradeListResponse {
+  success: boolean;
+  payload: UserTrade[];
+}
+
+export interface BalanceResponse {
+  success: boolean;
+  payload: {
+    balances: Balance[];
+  };
+}
+
+export interface DateRange {
+  /** Inclusive lower bound */
+  after?: Date;
+  /** Exclusive upper bound */
+  before?: Date;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Marker for the page after this one */
+  marker?: string;
+  /** True if the page was full and no stop condition was hit, so more records may follow */
+  hasMore: boolean;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  pagesFetched: number;
+  /** True if fetching stopped at the record cap while more records may be available */
+  truncated: boolean;
+  /** Marker to resume from when truncated */
+  nextMarker?: string;
 }
\ No newline at end of file
@@ -0,0 +1,281 @@
+import fs from 'fs';
+import { DebouncedJsonFile } from './json-file.js';
+import { createLogger } from './logging.js';
+
+const logToFile = createLogger(import.meta.url, 'CACHE');
+
+export const CACHE_BACKENDS = ['memory', 'file'] as const;
+
+export type CacheBackend = typeof CACHE_BACKENDS[number];
+
+export interface CacheEntryInfo {
+  key: string;
+  /** Endpoint the entry came from (e.g. 'withdrawals'), which per-endpoint TTLs are keyed by */
+  endpoint: string;
+  expires_at: string;
+  bytes: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  max_entries: number;
+  max_bytes: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or null before the first lookup */
+  hit_rate: number | null;
+  /** Entries dropped as least recently used to stay within the bounds */
+  evictions: number;
+  expirations: number;
+}
+
+/**
+ * Storage for cached API responses. Lookups count towards the hit/miss statistics
+ * and treat expired entries as misses.
+ */
+export interface CacheStore {
+  get<T>(key: string): T | undefined;
+  set<T>(key: string, data: T, ttlSeconds: number): void;
+  /**
+   * Drops every entry whose key starts with the prefix, or every entry without one.
+   *
+   * @returns The number of entries dropped
+   */
+  invalidate(prefix?: string): number;
+  entries(prefix?: string): CacheEntryInfo[];
+  stats(): CacheStats;
+}
+
+export interface CacheBounds {
+  maxEntries: number;
+  maxBytes: number;
+  now?: () => number;
+}
+
+interface StoredEntry {
+  data: unknown;
+  expires: number;
+  bytes: number;
+}
+
+/**
+ * Names the endpoint a cache key belongs to: the path segment after the API version,
+ * so '/api/v3/withdrawals/abc{"limit":5}' is 'withdrawals'.
+ */
+export function endpointOf(key: string): string {
+  return /^\/api\/v\d+\/([a-z_]+)/.exec(key)?.[1] ?? key;
+}
+
+function isSavedEntry(value: unknown): value is [string, StoredEntry] {
+  if (!Array.isArray(value) || value.length !== 2 || typeof value[0] !== 'string') {
+    return false;
+  }
+  const entry = value[1] as Partial<StoredEntry> | null;
+  return typeof entry === 'object' && entry !== null && typeof entry.expires === 'number' && typeof entry.bytes === 'number';
+}
+
+/**
+ * Bounded in-memory cache that evicts the least recently used entries once it holds
+ * more than `maxEntries` entries or `maxBytes` of serialized data. Entries too large
+ * for the byte bound on their own are not cached at all.
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected store = new Map<string, StoredEntry>();
+  protected now: () => number;
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+  constructor(private bounds: CacheBounds) {
+    this.now = bounds.now ?? Date.now;
+  }
+
+  get<T>(key: string): T | undefined {
+    const entry = this.store.get(key);
+    if (entry && entry.expires <= this.now()) {
+      this.remove(key);
+      this.counters.expirations++;
+      this.changed();
+    } else if (entry) {
+      // Re-insert so Map order doubles as least-recently-used order
+      this.store.delete(key);
+      this.store.set(key, entry);
+      this.counters.hits++;
+      return entry.data as T;
+    }
+
+    this.counters.misses++;
+    return undefined;
+  }
+
+  set<T>(key: string, data: T, ttlSeconds: number): void {
+    this.remove(key);
+    const bytes = Buffer.byteLength(JSON.stringify(data) ?? '');
+    if (ttlSeconds > 0 && bytes <= this.bounds.maxBytes) {
+      this.insert(key, { data, expires: this.now() + ttlSeconds * 1000, bytes });
+      this.evict();
+    }
+    this.changed();
+  }
+
+  invalidate(prefix?: string): number {
+    let removed = 0;
+    for (const key of [...this.store.keys()]) {
+      if (!prefix || key.startsWith(prefix)) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.changed();
+    }
+    return removed;
+  }
+
+  entries(prefix?: string): CacheEntryInfo[] {
+    const now = this.now();
+    return [...this.store.entries()]
+      .filter(([key, entry]) => entry.expires > now && (!prefix || key.startsWith(prefix)))
+      .map(([key, entry]) => ({
+        key,
+        endpoint: endpointOf(key),
+        expires_at: new Date(entry.expires).toISOString(),
+        bytes: entry.bytes,
+      }));
+  }
+
+  stats(): CacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      entries: this.store.size,
+      bytes: this.bytes,
+      max_entries: this.bounds.maxEntries,
+      max_bytes: this.bounds.maxBytes,
+      hits: this.counters.hits,
+      misses: this.counters.misses,
+      hit_rate: lookups > 0 ? this.counters.hits / lookups : null,
+      evictions: this.counters.evictions,
+      expirations: this.counters.expirations,
+    };
+  }
+
+  protected insert(key: string, entry: StoredEntry): void {
+    this.store.set(key, entry);
+    this.bytes += entry.bytes;
+  }
+
+  /**
+   * Called after every change to the stored entries.
+   */
+  protected changed(): void {}
+
+  private remove(key: string): void {
+    const entry = this.store.get(key);
+    if (entry) {
+      this.store.delete(key);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  protected evict(): void {
+    for (const key of this.store.keys()) {
+      if (this.store.size <= this.bounds.maxEntries && this.bytes <= this.bounds.maxBytes) {
+        break;
+      }
+      this.remove(key);
+      this.counters.evictions++;
+    }
+  }
+}
+
+/**
+ * The in-memory LRU cache persisted to a JSON file, so cached responses survive a
+ * restart. The file is read once at startup, skipping expired entries, and rewritten
+ * at most once per write delay, owner-readable only. The cache is disposable, so a
+ * file that cannot be read is moved aside and the cache starts empty.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private file: DebouncedJsonFile;
+
+  constructor(filePath: string, bounds: CacheBounds, writeDelayMs?: number) {
+    super(bounds);
+    this.file = new DebouncedJsonFile(filePath, () => [...this.store.entries()], writeDelayMs);
+
+    if (fs.existsSync(filePath)) {
+      try {
+        const saved: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        if (!Array.isArray(saved) || !saved.every(isSavedEntry)) {
+          throw new Error('expected a list of [key, entry] pairs');
+        }
+        for (const [key, entry] of saved) {
+          if (entry.expires > this.now()) {
+            this.insert(key, entry);
+          }
+        }
+        // The bounds may have shrunk since the file was written
+        this.evict();
+      } catch (error) {
+        // Entries are only inserted once the whole file has been checked, so the cache is still empty
+        const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+        fs.renameSync(filePath, corruptPath);
+        logToFile('WARN', 'Cache file could not be read, starting empty', {
+          file: filePath,
+          movedTo: corruptPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Writes pending changes to the file now.
+   */
+  flush(): void {
+    this.file.flush();
+  }
+
+  protected changed(): void {
+    this.file.schedule();
+  }
+}
+
+export interface CacheTtlPolicy {
+  /** TTL overrides per endpoint (e.g. { balance: 30 }) */
+  byEndpoint: Record<string, number>;
+  /** TTLs per withdrawal/funding status (e.g. { pending: 10, complete: 86400 }) */
+  byStatus: Record<string, number>;
+}
+
+function statusesOf(data: unknown): string[] {
+  const records = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { payload?: unknown })?.payload)
+      ? (data as { payload: unknown[] }).payload
+      : [data];
+
+  return records
+    .map(record => (record as { status?: unknown })?.status)
+    .filter((status): status is string => typeof status === 'string')
+    .map(status => status.toLowerCase());
+}
+
+/**
+ * Works out how long to cache a response. An endpoint override replaces the default;
+ * then a single withdrawal or funding is cached for its status's TTL, while a list is
+ * cached no longer than the shortest TTL among its items' statuses, so one pending
+ * item keeps the whole page fresh.
+ *
+ * @param defaultSeconds - TTL the caller would use without a policy
+ */
+export function resolveTtl(policy: CacheTtlPolicy, key: string, data: unknown, defaultSeconds: number): number {
+  const endpointTtl = policy.byEndpoint[endpointOf(key)] ?? defaultSeconds;
+  const statusTtls = statusesOf(data)
+    .map(status => policy.byStatus[status])
+    .filter((ttl): ttl is number => ttl !== undefined);
+
+  if (statusTtls.length === 0) {
+    return endpointTtl;
+  }
+  const isList = Array.isArray(data) || Array.isArray((data as { payload?: unknown })?.payload);
+  return isList ? Math.min(endpointTtl, ...statusTtls) : statusTtls[0];
+}
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+
+/**
+ * SPEI participant codes (the first three CLABE digits) from Banxico's catalog.
+ */
+export const CLABE_BANK_CODES: Record<string, string> = {
+  '002': 'BANAMEX',
+  '006': 'BANCOMEXT',
+  '009': 'BANOBRAS',
+  '012': 'BBVA MEXICO',
+  '014': 'SANTANDER',
+  '019': 'BANJERCITO',
+  '021': 'HSBC',
+  '030': 'BAJIO',
+  '036': 'INBURSA',
+  '042': 'MIFEL',
+  '044': 'SCOTIABANK',
+  '058': 'BANREGIO',
+  '059': 'INVEX',
+  '060': 'BANSI',
+  '062': 'AFIRME',
+  '072': 'BANORTE',
+  '106': 'BANK OF AMERICA',
+  '108': 'MUFG',
+  '110': 'JP MORGAN',
+  '112': 'BMONEX',
+  '113': 'VE POR MAS',
+  '127': 'AZTECA',
+  '128': 'AUTOFIN',
+  '129': 'BARCLAYS',
+  '130': 'COMPARTAMOS',
+  '132': 'MULTIVA BANCO',
+  '133': 'ACTINVER',
+  '135': 'NAFIN',
+  '136': 'INTERCAM BANCO',
+  '137': 'BANCOPPEL',
+  '138': 'ABC CAPITAL',
+  '140': 'CONSUBANCO',
+  '141': 'VOLKSWAGEN',
+  '143': 'CIBANCO',
+  '145': 'BBASE',
+  '147': 'BANKAOOL',
+  '148': 'PAGATODO',
+  '150': 'INMOBILIARIO',
+  '151': 'DONDE',
+  '152': 'BANCREA',
+  '154': 'BANCO COVALTO',
+  '155': 'ICBC',
+  '156': 'SABADELL',
+  '157': 'SHINHAN',
+  '158': 'MIZUHO BANK',
+  '159': 'BANK OF CHINA',
+  '160': 'BANCO S3',
+  '166': 'BANCO DEL BIENESTAR',
+  '168': 'HIPOTECARIA FEDERAL',
+  '600': 'MONEXCB',
+  '601': 'GBM',
+  '602': 'MASARI',
+  '605': 'VALUE',
+  '608': 'VECTOR',
+  '616': 'FINAMEX',
+  '617': 'VALMEX',
+  '620': 'PROFUTURO',
+  '630': 'CB INTERCAM',
+  '631': 'CI BOLSA',
+  '634': 'FINCOMUN',
+  '638': 'NU MEXICO',
+  '642': 'REFORMA',
+  '646': 'STP',
+  '652': 'CREDICAPITAL',
+  '653': 'KUSPIT',
+  '656': 'UNAGRA',
+  '659': 'ASP INTEGRA OPC',
+  '670': 'LIBERTAD',
+  '677': 'CAJA POP MEXICA',
+  '680': 'CRISTOBAL COLON',
+  '683': 'CAJA TELEFONIST',
+  '684': 'TRANSFER',
+  '685': 'FONDO FIRA',
+  '686': 'INVERCAP',
+  '689': 'FOMPED',
+  '699': 'FONDEADORA',
+  '703': 'TESORED',
+  '706': 'ARCUS',
+  '710': 'NVIO',
+  '722': 'MERCADO PAGO',
+  '723': 'CUENCA',
+  '728': 'SPIN BY OXXO',
+};
+
+const CLABE_WEIGHTS = [3, 7, 1];
+
+/**
+ * Computes the CLABE control digit: each of the first 17 digits is multiplied by
+ * the repeating weights 3, 7, 1 (keeping only the last digit of each product),
+ * and the control digit brings the sum up to the next multiple of 10.
+ */
+export function computeClabeCheckDigit(first17: string): number {
+  const sum = [...first17].reduce(
+    (total, digit, index) => total + (Number(digit) * CLABE_WEIGHTS[index % 3]) % 10,
+    0
+  );
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validates a CLABE's length, control digit and bank code.
+ *
+ * @param clabe - The CLABE, spaces allowed
+ * @returns The normalized 18-digit CLABE with its bank code and bank name
+ * @throws Error describing the first problem found
+ */
+export function validateClabe(clabe: string): { clabe: string; bank_code: string; bank: string } {
+  const normalized = clabe.replace(/\s+/g, '');
+  if (!/^\d{18}$/.test(normalized)) {
+    throw new Error('CLABE must be exactly 18 digits');
+  }
+
+  const expected = computeClabeCheckDigit(normalized.slice(0, 17));
+  if (Number(normalized[17]) !== expected) {
+    throw new Error(`CLABE check digit is ${normalized[17]} but should be ${expected}; the CLABE is mistyped`);
+  }
+
+  const bankCode = normalized.slice(0, 3);
+  const bank = CLABE_BANK_CODES[bankCode];
+  if (!bank) {
+    throw new Error(`CLABE bank code ${bankCode} is not a known SPEI participant`);
+  }
+
+  return { clabe: normalized, bank_code: bankCode, bank };
+}
+
+/**
+ * Zod schema for CLABE tool parameters. Parses to the normalized 18-digit CLABE
+ * and reports a bad length, check digit or bank code as a validation issue.
+ */
+export const ClabeSchema = z.string().transform((value, ctx) => {
+  try {
+    return validateClabe(value).clabe;
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    return z.NEVER;
+  }
+});
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { ConfirmationError } from '../errors.js';
+
+interface PendingConfirmation {
+  action: string;
+  fingerprint: string;
+  payload: unknown;
+  expires: number;
+}
+
+export interface ConfirmationTicket {
+  confirm_token: string;
+  expires_at: string;
+}
+
+// Stable JSON so that { a, b } and { b, a } describe the same request
+function fingerprint(request: unknown): string {
+  const canonical = JSON.stringify(request, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+  return crypto.createHash('sha256').update(canonical ?? '').digest('hex');
+}
+
+/**
+ * Two-step confirmation for tools that change account state.
+ * The first call previews the operation and receives a single-use token bound to
+ * the exact request; the operation only runs when the same request is repeated
+ * with that token before it expires.
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private ttlSeconds: number) {}
+
+  /**
+   * Issues a token for `action` bound to `request`, remembering `payload`
+   * (e.g. the resolved targets shown in the preview) for the confirming call.
+   */
+  issue(action: string, request: unknown, payload: unknown): ConfirmationTicket {
+    this.prune();
+
+    const token = crypto.randomBytes(16).toString('hex');
+    const expires = Date.now() + this.ttlSeconds * 1000;
+    this.pending.set(token, { action, fingerprint: fingerprint(request), payload, expires });
+
+    return { confirm_token: token, expires_at: new Date(expires).toISOString() };
+  }
+
+  /**
+   * Redeems a token. Tokens are single-use whether or not they match.
+   *
+   * @returns The payload stored when the token was issued
+   * @throws ConfirmationError if the token is unknown, expired, or for a different request
+   */
+  consume<T>(token: string, action: string, request: unknown): T {
+    const pending = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!pending) {
+      throw new ConfirmationError('Unknown or already used confirm_token');
+    }
+    if (pending.expires <= Date.now()) {
+      throw new ConfirmationError('confirm_token has expired');
+    }
+    if (pending.action !== action || pending.fingerprint !== fingerprint(request)) {
+      throw new ConfirmationError('confirm_token was issued for a different request');
+    }
+
+    return pending.payload as T;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expires <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
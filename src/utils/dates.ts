@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { DateRange } from '../types.js';
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const RELATIVE_PATTERN = /^-(\d+(?:\.\d+)?)\s*([smhdw])$/i;
+
+/**
+ * Parses a date given either as ISO-8601 (`2025-01-31`, `2025-01-31T12:00:00Z`)
+ * or relative to now (`-30m`, `-24h`, `-7d`, `-2w`), or the literal `now`.
+ *
+ * @param value - The user-supplied date string
+ * @param now - Current time in milliseconds (injectable for tests)
+ * @returns The parsed date
+ * @throws Error if the value is in neither format
+ */
+export function parseDateInput(value: string, now = Date.now()): Date {
+  const trimmed = value.trim();
+
+  if (trimmed.toLowerCase() === 'now') {
+    return new Date(now);
+  }
+
+  const relative = RELATIVE_PATTERN.exec(trimmed);
+  if (relative) {
+    const amount = parseFloat(relative[1]);
+    const unit = relative[2].toLowerCase();
+    return new Date(now - amount * RELATIVE_UNITS_MS[unit]);
+  }
+
+  const timestamp = Date.parse(trimmed);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid date "${value}": use ISO-8601 (e.g. 2025-01-31T00:00:00Z) or a relative offset (e.g. -24h, -7d)`);
+  }
+
+  return new Date(timestamp);
+}
+
+/**
+ * Checks whether a Bitso `created_at` timestamp falls inside a range.
+ * The lower bound is inclusive and the upper bound exclusive.
+ *
+ * @param createdAt - ISO timestamp from a Bitso record
+ * @param range - Range to check against; missing bounds are open
+ * @returns True if the timestamp is within the range
+ */
+export function isInDateRange(createdAt: string, range: DateRange): boolean {
+  const timestamp = Date.parse(createdAt);
+  if (range.after && timestamp < range.after.getTime()) {
+    return false;
+  }
+  if (range.before && timestamp >= range.before.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Zod schema for tool parameters that accept ISO-8601 or relative dates (e.g. -24h).
+ * Parses to a Date and reports unparseable input as a validation issue.
+ */
+export const DateInputSchema = z.string().transform((value, ctx) => {
+  try {
+    return parseDateInput(value);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    return z.NEVER;
+  }
+});
+
+/**
+ * Refinement for schemas taking `created_after` and `created_before`: a range whose
+ * lower bound is not before its upper bound matches nothing, so it is rejected.
+ */
+export function hasOrderedCreatedRange(params: { created_after?: Date; created_before?: Date }): boolean {
+  return !params.created_after || !params.created_before || params.created_after < params.created_before;
+}
+
+export const CREATED_RANGE_ERROR = {
+  message: 'created_after must be before created_before',
+  path: ['created_before'],
+};
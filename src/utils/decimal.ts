@@ -0,0 +1,256 @@
+import { z } from 'zod';
+
+/**
+ * Digits kept after the decimal point when dividing, enough for inverse prices
+ * of 8-decimal crypto amounts without visible drift.
+ */
+export const DIVISION_SCALE = 18;
+
+/**
+ * Decimal places used when displaying amounts per currency.
+ * Currencies not listed fall back to DEFAULT_CURRENCY_PRECISION.
+ */
+export const CURRENCY_PRECISION: Record<string, number> = {
+  mxn: 2,
+  usd: 2,
+  ars: 2,
+  brl: 2,
+  cop: 2,
+  eur: 2,
+  btc: 8,
+  eth: 8,
+  ltc: 8,
+  bch: 8,
+  xrp: 6,
+  usdt: 6,
+  usdc: 6,
+};
+
+export const DEFAULT_CURRENCY_PRECISION = 8;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Largest exponent accepted, enough for any finite JS number. Exponents scale the
+ * BigInt by a power of ten, so an unbounded one (e.g. '1e1000000000') would take
+ * the process down computing it.
+ */
+const MAX_EXPONENT = 324;
+
+/**
+ * Immutable arbitrary-precision decimal backed by a BigInt of scaled units,
+ * so sums and conversions of Bitso amount strings never go through floats.
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+
+  private constructor(private readonly units: bigint, private readonly scale: number) {}
+
+  /**
+   * Parses a decimal from a string (e.g. '0.00000001', '-1.5', '1e-8'), number or bigint.
+   *
+   * @throws Error if the value is not a finite decimal number
+   */
+  static from(value: string | number | bigint | Decimal): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+    if (typeof value === 'bigint') {
+      return new Decimal(value, 0);
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+      throw new Error(`Invalid decimal value: "${value}"`);
+    }
+
+    const [, sign, integerPart, fractionPart = '', exponentPart = '0'] = match;
+    const exponent = parseInt(exponentPart, 10);
+    if (Math.abs(exponent) > MAX_EXPONENT) {
+      throw new Error(`Invalid decimal value: "${value}" (exponent out of range)`);
+    }
+    let units = BigInt(`${integerPart || '0'}${fractionPart}`);
+    let scale = fractionPart.length - exponent;
+    if (scale < 0) {
+      units *= 10n ** BigInt(-scale);
+      scale = 0;
+    }
+
+    return new Decimal(sign === '-' ? -units : units, scale);
+  }
+
+  /**
+   * Sums a list of values, starting from zero.
+   */
+  static sum(values: Array<string | number | Decimal>): Decimal {
+    return values.reduce<Decimal>((total, value) => total.plus(value), Decimal.ZERO);
+  }
+
+  plus(other: string | number | Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a + b, scale);
+  }
+
+  minus(other: string | number | Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a - b, scale);
+  }
+
+  times(other: string | number | Decimal): Decimal {
+    const value = Decimal.from(other);
+    return new Decimal(this.units * value.units, this.scale + value.scale);
+  }
+
+  /**
+   * Divides, rounding half away from zero at `scale` decimal places.
+   *
+   * @throws Error on division by zero
+   */
+  dividedBy(other: string | number | Decimal, scale = DIVISION_SCALE): Decimal {
+    const divisor = Decimal.from(other);
+    if (divisor.units === 0n) {
+      throw new Error('Division by zero');
+    }
+
+    // (a / 10^sa) / (b / 10^sb) = (a * 10^(sb + scale + 1 - sa) / b) / 10^(scale + 1)
+    const shift = divisor.scale + scale + 1 - this.scale;
+    const numerator = shift >= 0 ? this.units * 10n ** BigInt(shift) : this.units / 10n ** BigInt(-shift);
+    return new Decimal(numerator / divisor.units, scale + 1).round(scale);
+  }
+
+  negated(): Decimal {
+    return new Decimal(-this.units, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? this.negated() : this;
+  }
+
+  compare(other: string | number | Decimal): -1 | 0 | 1 {
+    const [a, b] = Decimal.align(this, Decimal.from(other));
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  eq(other: string | number | Decimal): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: string | number | Decimal): boolean {
+    return this.compare(other) < 0;
+  }
+
+  gt(other: string | number | Decimal): boolean {
+    return this.compare(other) > 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /**
+   * Rounds half away from zero to `scale` decimal places.
+   */
+  round(scale: number): Decimal {
+    if (scale >= this.scale) {
+      return this;
+    }
+
+    const divisor = 10n ** BigInt(this.scale - scale);
+    const magnitude = this.units < 0n ? -this.units : this.units;
+    let rounded = magnitude / divisor;
+    if ((magnitude % divisor) * 2n >= divisor) {
+      rounded += 1n;
+    }
+    return new Decimal(this.units < 0n ? -rounded : rounded, scale);
+  }
+
+  /**
+   * Formats with exactly `scale` decimal places, rounding half away from zero.
+   */
+  toFixed(scale: number): string {
+    const rounded = this.round(scale);
+    const units = rounded.units * 10n ** BigInt(scale - rounded.scale);
+    const negative = units < 0n;
+    const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+    const integerPart = digits.slice(0, digits.length - scale);
+    const fractionPart = digits.slice(digits.length - scale);
+    return `${negative ? '-' : ''}${integerPart}${scale > 0 ? `.${fractionPart}` : ''}`;
+  }
+
+  /**
+   * Formats with trailing zeros removed (e.g. '1.5', '0.00000001', '100').
+   */
+  toString(): string {
+    const fixed = this.toFixed(this.scale);
+    return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private static align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [
+      a.units * 10n ** BigInt(scale - a.scale),
+      b.units * 10n ** BigInt(scale - b.scale),
+      scale,
+    ];
+  }
+}
+
+/**
+ * Gets the number of decimal places used to display amounts of a currency.
+ *
+ * @param currency - Currency code, case-insensitive (e.g. 'MXN', 'btc')
+ * @returns Decimal places for the currency
+ */
+export function getCurrencyPrecision(currency: string): number {
+  return CURRENCY_PRECISION[currency.toLowerCase()] ?? DEFAULT_CURRENCY_PRECISION;
+}
+
+/**
+ * Rounds and formats an amount with the precision of its currency.
+ *
+ * @param amount - Amount as a decimal string, number or Decimal
+ * @param currency - Currency the amount is denominated in
+ * @returns The formatted amount (e.g. '1500.50' for MXN, '0.12345678' for BTC)
+ */
+export function formatAmount(amount: string | number | Decimal, currency: string): string {
+  return Decimal.from(amount).toFixed(getCurrencyPrecision(currency));
+}
+
+/**
+ * Zod schema for tool parameters holding a positive amount, as a string or number.
+ * Parses to a normalized decimal string so amounts reach Bitso without float rounding.
+ * Strings must use plain notation: no amount needs an exponent.
+ */
+export const PositiveDecimalSchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  if (typeof value === 'string' && /e/i.test(value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Use plain decimal notation, without an exponent' });
+    return z.NEVER;
+  }
+  try {
+    const decimal = Decimal.from(value);
+    if (decimal.isNegative() || decimal.isZero()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be greater than zero' });
+      return z.NEVER;
+    }
+    return decimal.toString();
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    return z.NEVER;
+  }
+});
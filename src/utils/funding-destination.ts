@@ -0,0 +1,106 @@
+import { FundingDestination } from '../types.js';
+
+/**
+ * Networks whose deposits are credited by tag or memo: a deposit sent to the
+ * shared address without it cannot be matched to the account.
+ */
+export const TAG_REQUIRED_NETWORKS: Record<string, 'destination tag' | 'memo'> = {
+  xrp: 'destination tag',
+  xlm: 'memo',
+  eos: 'memo',
+  bnb: 'memo',
+  bep2: 'memo',
+  atom: 'memo',
+  hbar: 'memo',
+  ton: 'memo',
+  // Names Bitso also uses for the networks above
+  ripple: 'destination tag',
+  stellar: 'memo',
+  cosmos: 'memo',
+  hedera: 'memo',
+};
+
+/**
+ * Networks known to credit deposits by address alone. A currency that needs a tag on
+ * its native chain (e.g. bnb) needs none here.
+ */
+const TAGLESS_NETWORKS = new Set([
+  'btc', 'bitcoin', 'eth', 'ethereum', 'erc20', 'bsc', 'bep20', 'trx', 'tron', 'trc20',
+  'polygon', 'matic', 'arbitrum', 'optimism', 'base', 'sol', 'solana', 'avax', 'avalanche',
+  'ltc', 'litecoin', 'bch', 'doge', 'ada', 'cardano', 'dot', 'polkadot',
+]);
+
+// Query parameters some identifiers use to embed the tag (e.g. 'rAddress?dt=12345')
+const EMBEDDED_TAG_PARAMS = ['dt', 'tag', 'memo'];
+
+/**
+ * Splits a tag embedded in an identifier out of it, so 'rAddress?dt=12345'
+ * is address 'rAddress' with tag '12345'.
+ */
+export function splitEmbeddedTag(identifier: string): { address: string; tag?: string } {
+  const [address, query] = identifier.split('?', 2);
+  const embedded = new URLSearchParams(query ?? '');
+  return { address, tag: EMBEDDED_TAG_PARAMS.map(param => embedded.get(param)).find(Boolean) ?? undefined };
+}
+
+/**
+ * Gets the kind of tag a deposit or withdrawal needs. Known networks decide on their
+ * own; for a network name neither map recognises, or none, the currency decides.
+ */
+export function tagKindFor(currency: string, network?: string | null): 'destination tag' | 'memo' | undefined {
+  const key = network?.toLowerCase();
+  if (key && (key in TAG_REQUIRED_NETWORKS || TAGLESS_NETWORKS.has(key))) {
+    return TAG_REQUIRED_NETWORKS[key];
+  }
+  return TAG_REQUIRED_NETWORKS[currency.toLowerCase()];
+}
+
+export interface DescribedFundingDestination {
+  currency: string;
+  network: string | null;
+  identifier_name: string;
+  /** Deposit address, or CLABE for MXN over SPEI */
+  destination: string;
+  tag_required: boolean;
+  tag_kind: 'destination tag' | 'memo' | null;
+  tag: string | null;
+  warning: string | null;
+}
+
+/**
+ * Normalizes a funding destination: splits an embedded tag out of the identifier
+ * and flags networks that need a tag or memo, with a warning to pass on verbatim.
+ *
+ * @param currency - Currency being deposited
+ * @param network - Network requested, if any (Bitso's answer takes precedence)
+ */
+export function describeFundingDestination(
+  currency: string,
+  network: string | undefined,
+  raw: FundingDestination
+): DescribedFundingDestination {
+  const { address: destination, tag: embeddedTag } = splitEmbeddedTag(raw.account_identifier);
+
+  const resolvedNetwork = (raw.network ?? network)?.toLowerCase() ?? null;
+  const tag = raw.tag ?? raw.memo ?? embeddedTag ?? null;
+  const tagKind = tagKindFor(currency, resolvedNetwork)
+    ?? (raw.memo ? 'memo' : tag ? 'destination tag' : null);
+
+  let warning: string | null = null;
+  if (tagKind && tag) {
+    warning = `${tagKind.toUpperCase()} REQUIRED: deposits to ${destination} MUST include the ${tagKind} ${tag}. Without it the funds cannot be credited to this account and may be lost.`;
+  } else if (tagKind) {
+    warning = `${tagKind.toUpperCase()} REQUIRED: this network needs a ${tagKind}, but Bitso did not return one. Do not send funds until the ${tagKind} is confirmed.`;
+  }
+
+  return {
+    currency: currency.toLowerCase(),
+    network: resolvedNetwork,
+    identifier_name: raw.account_identifier_name,
+    destination,
+    tag_required: tagKind !== null,
+    tag_kind: tagKind,
+    tag,
+    warning,
+  };
+}
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logging.js';
+
+const logToFile = createLogger(import.meta.url, 'JSON_FILE');
+
+/**
+ * How long changes are collected before a store is written out.
+ */
+export const DEFAULT_WRITE_DELAY_MS = 1000;
+
+const pendingFiles = new Set<DebouncedJsonFile>();
+let exitHookInstalled = false;
+
+/**
+ * Persists a store's JSON snapshot off the request path: every change within the delay
+ * is covered by one write, made atomically (temporary file, then rename) and readable
+ * by the owner only, since the stores hold private account data. Writes still pending
+ * when the process exits are flushed then.
+ */
+export class DebouncedJsonFile {
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param snapshot - Produces the data to write, called at write time
+   */
+  constructor(readonly filePath: string, private snapshot: () => unknown, private delayMs = DEFAULT_WRITE_DELAY_MS) {}
+
+  schedule(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      // A background write that fails (e.g. a read-only directory) must not take the server down
+      try {
+        this.flush();
+      } catch (error) {
+        logToFile('ERROR', 'Failed to write JSON file', { file: this.filePath, error: error instanceof Error ? error.message : String(error) });
+      }
+    }, this.delayMs);
+    this.timer.unref();
+    pendingFiles.add(this);
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.once('exit', () => pendingFiles.forEach(file => file.flush()));
+    }
+  }
+
+  /**
+   * Writes any scheduled change now.
+   */
+  flush(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    pendingFiles.delete(this);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.filePath}.tmp`;
+    // A temporary file left by a crash keeps its old mode, so always start from a new one
+    fs.rmSync(tempPath, { force: true });
+    fs.writeFileSync(tempPath, JSON.stringify(this.snapshot()), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,32 @@
+import { FlatLedgerEntry, LedgerEntry } from '../types.js';
+
+const REFERENCE_KEYS = ['tid', 'oid', 'fid', 'wid'] as const;
+
+/**
+ * Flattens ledger entries into one row per balance update, lifting the
+ * trade/order/funding/withdrawal IDs out of `details` so rows can be joined
+ * against `Withdrawal.wid` and `Funding.fid`.
+ *
+ * @param entries - Raw entries from /api/v3/ledger
+ * @returns One flat row per balance update
+ */
+export function flattenLedgerEntries(entries: LedgerEntry[]): FlatLedgerEntry[] {
+  return entries.flatMap(entry => {
+    const references: Partial<Pick<FlatLedgerEntry, typeof REFERENCE_KEYS[number]>> = {};
+    for (const key of REFERENCE_KEYS) {
+      const value = entry.details?.[key];
+      if (value !== undefined && value !== null) {
+        references[key] = String(value);
+      }
+    }
+
+    return (entry.balance_updates ?? []).map(update => ({
+      eid: entry.eid,
+      operation: entry.operation,
+      created_at: entry.created_at,
+      currency: update.currency,
+      amount: update.amount,
+      ...references,
+    }));
+  });
+}
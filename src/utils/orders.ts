@@ -0,0 +1,124 @@
+import { AvailableBook, OrderRequest, Ticker } from '../types.js';
+import { Decimal, formatAmount } from './decimal.js';
+
+export interface OrderEstimate {
+  reference_price: string;
+  price_source: 'limit_price' | 'ticker_ask' | 'ticker_bid';
+  major_amount: string;
+  major_currency: string;
+  notional: string;
+  minor_currency: string;
+  fee_role: 'maker' | 'taker';
+  fee_rate_percent: string | null;
+  estimated_fee: string | null;
+  /** Notional plus fee for buys, minus fee for sells; in the minor currency */
+  estimated_total: string | null;
+}
+
+/**
+ * Splits a book name into its major and minor currencies (e.g. 'btc_mxn' → ['btc', 'mxn']).
+ */
+export function splitBook(book: string): [string, string] {
+  const [major, minor] = book.split('_');
+  return [major, minor ?? ''];
+}
+
+function referencePrice(order: OrderRequest, ticker?: Ticker): Pick<OrderEstimate, 'reference_price' | 'price_source'> {
+  if (order.price) {
+    return { reference_price: order.price, price_source: 'limit_price' };
+  }
+  if (!ticker) {
+    throw new Error(`A ticker is required to estimate a ${order.type} order on ${order.book}`);
+  }
+  // Market orders cross the spread: buys fill near the ask, sells near the bid
+  return order.side === 'buy'
+    ? { reference_price: ticker.ask, price_source: 'ticker_ask' }
+    : { reference_price: ticker.bid, price_source: 'ticker_bid' };
+}
+
+/**
+ * Estimates an order's major amount, notional and fee from its limit price or,
+ * for market orders, the current ticker. Fees use the book's flat rate: maker for
+ * post-only orders, taker otherwise (the worst case for limit orders that cross).
+ * All estimated amounts are expressed in the book's minor currency unless noted.
+ *
+ * @param order - The order to estimate
+ * @param book - Book limits and fees from available_books
+ * @param ticker - Current ticker, required for market orders
+ * @returns The estimate, with amounts formatted to each currency's precision
+ */
+export function estimateOrder(order: OrderRequest, book: AvailableBook, ticker?: Ticker): OrderEstimate {
+  const [majorCurrency, minorCurrency] = splitBook(book.book);
+  const { reference_price, price_source } = referencePrice(order, ticker);
+  const price = Decimal.from(reference_price);
+
+  const major = order.major !== undefined
+    ? Decimal.from(order.major)
+    : price.isZero() ? Decimal.ZERO : Decimal.from(order.minor ?? 0).dividedBy(price);
+  const notional = order.minor !== undefined ? Decimal.from(order.minor) : major.times(price);
+
+  const feeRole = order.time_in_force === 'postonly' ? 'maker' : 'taker';
+  const feeRate = book.fees?.flat_rate?.[feeRole];
+  const fee = feeRate !== undefined ? notional.times(feeRate).dividedBy(100) : undefined;
+
+  return {
+    reference_price,
+    price_source,
+    major_amount: formatAmount(major, majorCurrency),
+    major_currency: majorCurrency,
+    notional: formatAmount(notional, minorCurrency),
+    minor_currency: minorCurrency,
+    fee_role: feeRole,
+    fee_rate_percent: feeRate ?? null,
+    estimated_fee: fee ? formatAmount(fee, minorCurrency) : null,
+    estimated_total: fee ? formatAmount(order.side === 'buy' ? notional.plus(fee) : notional.minus(fee), minorCurrency) : null,
+  };
+}
+
+function checkRange(problems: string[], label: string, value: Decimal, minimum: string, maximum: string): void {
+  if (value.lt(minimum)) {
+    problems.push(`${label} ${value} is below the minimum of ${minimum}`);
+  } else if (value.gt(maximum)) {
+    problems.push(`${label} ${value} is above the maximum of ${maximum}`);
+  }
+}
+
+/**
+ * Checks an order against the limits Bitso publishes for its book: amount, value
+ * and price ranges, and the price tick size. Amounts the caller did not give are
+ * checked using the estimate, so a market order's implied amount is covered too.
+ *
+ * @returns Human-readable problems; empty when the order is within limits
+ */
+export function validateOrder(order: OrderRequest, book: AvailableBook, estimate: OrderEstimate): string[] {
+  const problems: string[] = [];
+
+  if (order.price !== undefined) {
+    const price = Decimal.from(order.price);
+    checkRange(problems, 'Price', price, book.minimum_price, book.maximum_price);
+
+    if (book.tick_size && !Decimal.from(book.tick_size).isZero()) {
+      const tick = Decimal.from(book.tick_size);
+      if (!price.dividedBy(tick, 0).times(tick).eq(price)) {
+        problems.push(`Price ${price} is not a multiple of the tick size ${book.tick_size}`);
+      }
+    }
+  }
+
+  checkRange(
+    problems,
+    order.major !== undefined ? 'Amount' : 'Estimated amount',
+    Decimal.from(order.major ?? estimate.major_amount),
+    book.minimum_amount,
+    book.maximum_amount
+  );
+  checkRange(
+    problems,
+    order.minor !== undefined ? 'Value' : 'Estimated value',
+    Decimal.from(order.minor ?? estimate.notional),
+    book.minimum_value,
+    book.maximum_value
+  );
+
+  return problems;
+}
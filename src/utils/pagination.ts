@@ -0,0 +1,121 @@
+import { DateRange, Page, PaginatedResult } from '../types.js';
+import { isInDateRange } from './dates.js';
+
+/**
+ * Largest page size accepted by Bitso list endpoints.
+ */
+export const MAX_PAGE_SIZE = 100;
+
+export interface PaginateOptions<T> {
+  /** Marker to start from (exclusive), as returned by a previous page */
+  marker?: string;
+  /** Records requested per page (defaults to MAX_PAGE_SIZE) */
+  pageSize?: number;
+  /** Stop once this many records have been fetched */
+  maxRecords?: number;
+  /** Stop after the first page containing an item for which this returns true (e.g. a date boundary) */
+  stopWhen?: (item: T) => boolean;
+  /** Only keep items for which this returns true; maxRecords then counts kept items */
+  filter?: (item: T) => boolean;
+}
+
+export interface ListAllOptions<T> extends PaginateOptions<T> {
+  /** Only return records created within this range */
+  range?: DateRange;
+}
+
+/**
+ * Walks a marker-paginated Bitso list endpoint, yielding one page at a time.
+ * Bitso returns records newest first and `marker` is the ID of the last record seen,
+ * so each request continues right after the previous page.
+ *
+ * @param fetchPage - Fetches a single page given the marker and page size
+ * @param getMarker - Extracts the pagination marker (record ID) from an item
+ * @param options - Starting marker, page size, record cap and stop condition
+ */
+export async function* paginate<T>(
+  fetchPage: (marker: string | undefined, limit: number) => Promise<T[]>,
+  getMarker: (item: T) => string,
+  options: PaginateOptions<T> = {}
+): AsyncGenerator<Page<T>> {
+  const pageSize = options.pageSize ?? MAX_PAGE_SIZE;
+  const maxRecords = options.maxRecords ?? Infinity;
+  let marker = options.marker;
+  let kept = 0;
+
+  while (kept < maxRecords) {
+    const remaining = maxRecords - kept;
+    // With a filter we cannot know how many records will be kept, so always request full pages
+    const limit = options.filter ? pageSize : Math.min(pageSize, remaining);
+    const fetched = await fetchPage(marker, limit);
+
+    const boundaryReached = options.stopWhen ? fetched.some(options.stopWhen) : false;
+    let items = options.filter ? fetched.filter(options.filter) : fetched;
+    let hasMore = fetched.length === limit && !boundaryReached;
+
+    if (items.length > remaining) {
+      // Resume right after the last record we kept, not the last one fetched
+      items = items.slice(0, remaining);
+      marker = getMarker(items[items.length - 1]);
+      hasMore = true;
+    } else if (fetched.length > 0) {
+      marker = getMarker(fetched[fetched.length - 1]);
+    }
+
+    kept += items.length;
+    yield { items, marker, hasMore };
+
+    if (!hasMore) {
+      return;
+    }
+  }
+}
+
+/**
+ * Turns a date range into pagination options for a newest-first list:
+ * records outside the range are filtered out, and paging stops once a
+ * record older than the lower bound is seen.
+ *
+ * @param options - Pagination options, optionally with a date range
+ * @returns Options understood by paginate()
+ */
+export function applyDateRange<T extends { created_at: string }>(options: ListAllOptions<T>): PaginateOptions<T> {
+  const { range, ...rest } = options;
+  if (!range || (!range.after && !range.before)) {
+    return rest;
+  }
+
+  const after = range.after?.getTime();
+  return {
+    ...rest,
+    filter: item => isInDateRange(item.created_at, range) && (rest.filter?.(item) ?? true),
+    stopWhen: item =>
+      (after !== undefined && Date.parse(item.created_at) < after) || (rest.stopWhen?.(item) ?? false),
+  };
+}
+
+/**
+ * Drains a page iterator into a single result.
+ *
+ * @param pages - Iterator produced by paginate()
+ * @returns All records plus page count and whether more records may be available
+ */
+export async function collectPages<T>(pages: AsyncIterable<Page<T>>): Promise<PaginatedResult<T>> {
+  const items: T[] = [];
+  let pagesFetched = 0;
+  let lastPage: Page<T> | undefined;
+
+  for await (const page of pages) {
+    pagesFetched++;
+    items.push(...page.items);
+    lastPage = page;
+  }
+
+  const truncated = lastPage?.hasMore ?? false;
+  return {
+    items,
+    pagesFetched,
+    truncated,
+    nextMarker: truncated ? lastPage?.marker : undefined,
+  };
+}
@@ -0,0 +1,93 @@
+const WINDOW_MS = 60_000;
+
+export interface RequestLimits {
+  /** Requests allowed to be outstanding at once */
+  maxConcurrent: number;
+  /** Requests allowed to start in any rolling minute */
+  requestsPerMinute: number;
+  now?: () => number;
+}
+
+export interface LimiterStats {
+  active: number;
+  queued: number;
+}
+
+/**
+ * Limits outstanding requests and counts request starts in a sliding one-minute window,
+ * so no rolling minute ever sees more than `requestsPerMinute` requests, matching a
+ * per-minute API limit. Tasks that cannot start yet wait in FIFO order.
+ */
+export class RequestLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  /** Start times within the last minute, oldest first */
+  private starts: number[] = [];
+  private windowTimer?: NodeJS.Timeout;
+  private now: () => number;
+
+  /**
+   * @param onQueued - Called whenever a task has to wait, with the limiter's state after queueing it
+   */
+  constructor(private limits: RequestLimits, private onQueued?: (stats: LimiterStats) => void) {
+    this.now = limits.now ?? Date.now;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  stats(): LimiterStats {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  private acquire(): Promise<void> {
+    if (this.queue.length === 0 && this.tryStart()) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.onQueued?.(this.stats());
+      this.drain();
+    });
+  }
+
+  private tryStart(): boolean {
+    const now = this.now();
+    while (this.starts.length > 0 && this.starts[0] <= now - WINDOW_MS) {
+      this.starts.shift();
+    }
+    if (this.active >= this.limits.maxConcurrent || this.starts.length >= this.limits.requestsPerMinute) {
+      return false;
+    }
+    this.starts.push(now);
+    this.active++;
+    return true;
+  }
+
+  /**
+   * Starts queued tasks while there is capacity. When only the window is full, wakes up
+   * once its oldest start leaves it; a finishing task drains again when slots are short.
+   * The wake-up never keeps the process alive on its own.
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.tryStart()) {
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0 && this.active < this.limits.maxConcurrent && !this.windowTimer) {
+      this.windowTimer = setTimeout(() => {
+        this.windowTimer = undefined;
+        this.drain();
+      }, this.starts[0] + WINDOW_MS - this.now());
+      this.windowTimer.unref();
+    }
+  }
+}
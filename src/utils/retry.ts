@@ -0,0 +1,91 @@
+import axios from 'axios';
+
+/**
+ * Upper bound for a single retry delay, so exponential growth or a long
+ * Retry-After never stalls a tool call for minutes.
+ */
+const MAX_BACKOFF_DELAY_MS = 30000;
+
+/**
+ * Determines whether a failed request is worth retrying.
+ * Network errors, timeouts, 429 and 5xx responses are transient; anything
+ * else (e.g. 400/401/404) will fail the same way on every attempt.
+ *
+ * @param error - The error thrown by axios
+ * @returns True if the request should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  // No response means the request never completed (timeout, reset, DNS...)
+  if (!error.response) {
+    return true;
+  }
+
+  const status = error.response.status;
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header, which may be either a number of seconds or an HTTP date.
+ *
+ * @param header - Raw Retry-After header value
+ * @param now - Current time in milliseconds (injectable for tests)
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(header: unknown, now = Date.now()): number | null {
+  if (typeof header !== 'string' || header.trim() === '') {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+/**
+ * Computes an exponential backoff delay with full jitter.
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param baseDelayMs - Base delay for the first retry
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, baseDelayMs: number): number {
+  const exponential = Math.min(MAX_BACKOFF_DELAY_MS, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * exponential);
+}
+
+/**
+ * Determines how long to wait before the next attempt, honoring Retry-After on 429.
+ * A Retry-After longer than the backoff cap is not waited out: retrying sooner would
+ * only hit the limit again, so the caller should fail with the rate-limit error instead.
+ *
+ * @param error - The error thrown by the failed attempt
+ * @param attempt - The attempt that just failed (1-based)
+ * @param baseDelayMs - Base delay for exponential backoff
+ * @returns Delay in milliseconds, or null if the request should not be retried
+ */
+export function getRetryDelay(error: unknown, attempt: number, baseDelayMs: number): number | null {
+  if (axios.isAxiosError(error) && error.response?.status === 429) {
+    const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return retryAfter <= MAX_BACKOFF_DELAY_MS ? retryAfter : null;
+    }
+  }
+
+  return computeBackoffDelay(attempt, baseDelayMs);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import { Funding, Withdrawal } from '../types.js';
+import { DebouncedJsonFile } from './json-file.js';
+import { createLogger } from './logging.js';
+
+const logToFile = createLogger(import.meta.url, 'STATUS_HISTORY');
+
+export type TrackedTransactionType = 'withdrawal' | 'funding';
+
+/**
+ * Statuses after which a withdrawal or funding no longer changes.
+ */
+export const TERMINAL_STATUSES = ['complete', 'failed', 'cancelled'];
+
+/**
+ * Oldest-updated transactions are dropped beyond this many, to bound the file size.
+ */
+export const MAX_TRACKED_TRANSACTIONS = 10000;
+
+export interface StatusObservation {
+  status: string;
+  observed_at: string;
+}
+
+export interface TransactionHistory {
+  type: TrackedTransactionType;
+  id: string;
+  currency: string;
+  method: string;
+  amount: string;
+  created_at: string;
+  observations: StatusObservation[];
+}
+
+export interface TransactionTimeline extends TransactionHistory {
+  current_status: string;
+  final_status: string | null;
+  /** Seconds from created_at until a terminal status was first observed */
+  seconds_to_final: number | null;
+  transitions: Array<{
+    from: string | null;
+    to: string;
+    observed_at: string;
+    seconds_since_created: number;
+  }>;
+}
+
+const historyKey = (type: TrackedTransactionType, id: string) => `${type}:${id}`;
+
+/**
+ * Records every distinct status observed for each withdrawal and funding, with the
+ * time it was first seen. Backed by a JSON file when a path is given (written in the
+ * background, owner-readable only), otherwise kept in memory only. A file that cannot
+ * be read is moved aside and the history starts empty.
+ */
+export class StatusHistoryStore {
+  private histories = new Map<string, TransactionHistory>();
+  private file?: DebouncedJsonFile;
+
+  constructor(filePath?: string, writeDelayMs?: number) {
+    if (!filePath) {
+      return;
+    }
+    this.file = new DebouncedJsonFile(filePath, () => [...this.histories.values()], writeDelayMs);
+
+    if (fs.existsSync(filePath)) {
+      try {
+        const saved: TransactionHistory[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        for (const history of saved) {
+          this.histories.set(historyKey(history.type, history.id), history);
+        }
+      } catch (error) {
+        this.histories.clear();
+        const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+        fs.renameSync(filePath, corruptPath);
+        logToFile('WARN', 'Status history file could not be read, starting empty', {
+          file: filePath,
+          movedTo: corruptPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Records the current status of each record, adding an observation only when
+   * the status differs from the last one seen.
+   *
+   * @returns The number of histories that gained an observation
+   */
+  record(type: TrackedTransactionType, records: Array<Withdrawal | Funding>, observedAt = new Date()): number {
+    let changed = 0;
+
+    for (const record of records) {
+      const id = 'wid' in record ? record.wid : record.fid;
+      const key = historyKey(type, id);
+      const history = this.histories.get(key) ?? {
+        type,
+        id,
+        currency: record.currency,
+        method: record.method,
+        amount: record.amount,
+        created_at: record.created_at,
+        observations: [],
+      };
+
+      if (history.observations.at(-1)?.status === record.status) {
+        continue;
+      }
+
+      history.observations.push({ status: record.status, observed_at: observedAt.toISOString() });
+      // Re-insert so Map order doubles as least-recently-updated order for pruning
+      this.histories.delete(key);
+      this.histories.set(key, history);
+      changed++;
+    }
+
+    if (changed > 0) {
+      this.prune();
+      this.file?.schedule();
+    }
+    return changed;
+  }
+
+  get(type: TrackedTransactionType, id: string): TransactionHistory | undefined {
+    return this.histories.get(historyKey(type, id));
+  }
+
+  private prune(): void {
+    for (const key of this.histories.keys()) {
+      if (this.histories.size <= MAX_TRACKED_TRANSACTIONS) {
+        break;
+      }
+      this.histories.delete(key);
+    }
+  }
+
+  /**
+   * Writes pending changes to the file now.
+   */
+  flush(): void {
+    this.file?.flush();
+  }
+}
+
+/**
+ * Turns a recorded history into a timeline of transitions with elapsed times.
+ * Times are when the server observed each status, so they are upper bounds that
+ * are only as fine-grained as how often the transaction was fetched.
+ */
+export function buildTimeline(history: TransactionHistory): TransactionTimeline {
+  const created = Date.parse(history.created_at);
+  const secondsSinceCreated = (observedAt: string) => Math.round((Date.parse(observedAt) - created) / 1000);
+
+  const transitions = history.observations.map((observation, index) => ({
+    from: index > 0 ? history.observations[index - 1].status : null,
+    to: observation.status,
+    observed_at: observation.observed_at,
+    seconds_since_created: secondsSinceCreated(observation.observed_at),
+  }));
+  const final = history.observations.find(observation => TERMINAL_STATUSES.includes(observation.status.toLowerCase()));
+
+  return {
+    ...history,
+    current_status: history.observations.at(-1)?.status ?? 'unknown',
+    final_status: final?.status ?? null,
+    seconds_to_final: final ? secondsSinceCreated(final.observed_at) : null,
+    transitions,
+  };
+}
@@ -0,0 +1,81 @@
+import { Funding, Withdrawal } from '../types.js';
+
+/**
+ * Statuses in which a transaction is still waiting on Bitso or the rails.
+ */
+export const IN_FLIGHT_STATUSES = ['pending', 'processing'];
+
+export interface StuckThresholds {
+  /** Minutes allowed per method code (e.g. { sp: 30, btc: 120 }) */
+  byMethod: Record<string, number>;
+  /** Minutes allowed for methods without their own threshold */
+  defaultMinutes: number;
+}
+
+export interface StuckTransaction {
+  type: 'withdrawal' | 'funding';
+  id: string;
+  status: string;
+  method: string;
+  currency: string;
+  amount: string;
+  created_at: string;
+  age_minutes: number;
+  threshold_minutes: number;
+  overdue_minutes: number;
+  origin_id: string | null;
+  details: Record<string, any>;
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Gets the age threshold for a method, falling back to the default.
+ */
+export function getStuckThreshold(method: string, thresholds: StuckThresholds): number {
+  return thresholds.byMethod[method.toLowerCase()] ?? thresholds.defaultMinutes;
+}
+
+/**
+ * Picks the in-flight transactions older than their method's threshold, oldest first.
+ * Each keeps its `details` (tx hash, tracking key, ...) for escalation.
+ *
+ * @param withdrawals - Withdrawals to scan (any status)
+ * @param fundings - Fundings to scan (any status)
+ * @param thresholds - Per-method age thresholds in minutes
+ * @param now - Reference time for ages
+ */
+export function findStuckTransactions(
+  withdrawals: Withdrawal[],
+  fundings: Funding[],
+  thresholds: StuckThresholds,
+  now: Date = new Date()
+): StuckTransaction[] {
+  const candidates = [
+    ...withdrawals.map(withdrawal => ({ type: 'withdrawal' as const, id: withdrawal.wid, origin_id: withdrawal.origin_id, record: withdrawal })),
+    ...fundings.map(funding => ({ type: 'funding' as const, id: funding.fid, origin_id: undefined, record: funding })),
+  ];
+
+  return candidates
+    .filter(({ record }) => IN_FLIGHT_STATUSES.includes(record.status.toLowerCase()))
+    .map(({ type, id, origin_id, record }) => {
+      const ageMinutes = Math.floor((now.getTime() - new Date(record.created_at).getTime()) / MINUTE_MS);
+      const threshold = getStuckThreshold(record.method, thresholds);
+      return {
+        type,
+        id,
+        status: record.status,
+        method: record.method,
+        currency: record.currency,
+        amount: record.amount,
+        created_at: record.created_at,
+        age_minutes: ageMinutes,
+        threshold_minutes: threshold,
+        overdue_minutes: ageMinutes - threshold,
+        origin_id: origin_id ?? null,
+        details: record.details,
+      };
+    })
+    .filter(transaction => transaction.overdue_minutes >= 0)
+    .sort((a, b) => b.age_minutes - a.age_minutes);
+}
@@ -0,0 +1,77 @@
+import { Funding, Withdrawal } from '../types.js';
+import { Decimal, formatAmount } from './decimal.js';
+
+export const SUMMARY_DIMENSIONS = ['currency', 'method', 'status', 'network', 'day'] as const;
+
+export type SummaryDimension = typeof SUMMARY_DIMENSIONS[number];
+
+export interface SummaryGroup {
+  key: Partial<Record<SummaryDimension, string | null>>;
+  count: number;
+  /** Totals per currency, since amounts in different currencies cannot be added */
+  totals: Record<string, string>;
+}
+
+export interface TransactionSummary {
+  count: number;
+  totals: Record<string, string>;
+  groups: SummaryGroup[];
+}
+
+function getDimension(record: Withdrawal | Funding, dimension: SummaryDimension): string | null {
+  switch (dimension) {
+    case 'currency':
+      return record.currency.toLowerCase();
+    case 'method':
+      return record.method ?? null;
+    case 'status':
+      return record.status ?? null;
+    case 'network':
+      // Fundings only carry the network inside details
+      return ('network' in record && record.network) || record.details?.network || null;
+    case 'day':
+      return new Date(record.created_at).toISOString().slice(0, 10);
+  }
+}
+
+function formatTotals(totals: Map<string, Decimal>): Record<string, string> {
+  return Object.fromEntries(
+    [...totals.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([currency, total]) => [currency, formatAmount(total, currency)])
+  );
+}
+
+/**
+ * Counts and totals records grouped by any combination of dimensions.
+ * Totals are kept per currency with decimal-safe arithmetic.
+ *
+ * @param records - Withdrawals or fundings to summarize
+ * @param groupBy - Dimensions to group by (an empty list yields a single group)
+ * @returns Overall count and totals plus one entry per group, largest groups first
+ */
+export function summarizeTransactions(records: Array<Withdrawal | Funding>, groupBy: SummaryDimension[]): TransactionSummary {
+  const overall = new Map<string, Decimal>();
+  const groups = new Map<string, { key: SummaryGroup['key']; count: number; totals: Map<string, Decimal> }>();
+
+  for (const record of records) {
+    const currency = record.currency.toLowerCase();
+    const amount = Decimal.from(record.amount);
+    overall.set(currency, (overall.get(currency) ?? Decimal.ZERO).plus(amount));
+
+    const key = Object.fromEntries(groupBy.map(dimension => [dimension, getDimension(record, dimension)]));
+    const id = JSON.stringify(key);
+    const group = groups.get(id) ?? { key, count: 0, totals: new Map<string, Decimal>() };
+    group.count++;
+    group.totals.set(currency, (group.totals.get(currency) ?? Decimal.ZERO).plus(amount));
+    groups.set(id, group);
+  }
+
+  return {
+    count: records.length,
+    totals: formatTotals(overall),
+    groups: [...groups.values()]
+      .sort((a, b) => b.count - a.count)
+      .map(group => ({ key: group.key, count: group.count, totals: formatTotals(group.totals) })),
+  };
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { BitsoApiError, BitsoPreconditionError } from '../errors.js';
+import { ToolError } from '../types.js';
+
+/**
+ * Converts an error caught in a tool handler into an MCP error result.
+ * Bitso API errors include their code, status, path and an actionable hint;
+ * precondition errors raised before a request is sent include their hint too.
+ *
+ * @param error - The caught error
+ * @param context - Prefix describing what the tool was doing (e.g. 'Error listing withdrawals')
+ * @returns A ToolError with isError set
+ */
+export function toToolError(error: unknown, context: string): ToolError {
+  let text: string;
+
+  if (error instanceof z.ZodError) {
+    const errorMessage = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
+    text = `Validation error: ${errorMessage}`;
+  } else if (error instanceof BitsoApiError || error instanceof BitsoPreconditionError) {
+    text = `${context}: ${error.message}\nHint: ${error.hint}`;
+  } else {
+    text = `${context}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text
+      }
+    ],
+    isError: true
+  };
+}
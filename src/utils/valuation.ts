@@ -0,0 +1,196 @@
+import { BitsoApiClient } from '../client.js';
+import { Ticker } from '../types.js';
+import { Decimal, formatAmount } from './decimal.js';
+
+const PRICE_SOURCE = 'Bitso public ticker (last trade price)';
+
+// Conversions through more books than this compound spreads too much to be meaningful
+const MAX_ROUTE_BOOKS = 2;
+
+// Decimal places shown for conversion rates
+const RATE_DISPLAY_SCALE = 12;
+
+interface RateEdge {
+  to: string;
+  rate: Decimal;
+  book: string;
+  as_of: string;
+}
+
+export interface ConversionRate {
+  rate: Decimal;
+  /** Books traversed, in order (empty when converting a currency to itself) */
+  route: string[];
+  /** Oldest ticker timestamp along the route */
+  as_of: string | null;
+}
+
+export interface Valuation {
+  quote_currency: string;
+  value: string;
+  rate: string;
+  route: string[];
+}
+
+export interface ValuationSummary {
+  quote_currency: string;
+  total: string;
+  priced_records: number;
+  unpriced_currencies: string[];
+  price_source: {
+    source: string;
+    as_of: string | null;
+    books: string[];
+  };
+}
+
+/**
+ * Builds a conversion graph from tickers: each `base_quote` book with a last price
+ * gives a base→quote edge and the inverse quote→base edge.
+ *
+ * @param tickers - Tickers for all books
+ * @returns Adjacency list keyed by currency
+ */
+export function buildRateGraph(tickers: Ticker[]): Map<string, RateEdge[]> {
+  const graph = new Map<string, RateEdge[]>();
+  const addEdge = (from: string, edge: RateEdge) => {
+    graph.set(from, [...(graph.get(from) ?? []), edge]);
+  };
+
+  for (const ticker of tickers) {
+    const [base, quote] = ticker.book.toLowerCase().split('_');
+    if (!base || !quote || !ticker.last) {
+      continue;
+    }
+    const price = Decimal.from(ticker.last);
+    if (!price.gt(0)) {
+      continue;
+    }
+
+    addEdge(base, { to: quote, rate: price, book: ticker.book, as_of: ticker.created_at });
+    addEdge(quote, { to: base, rate: Decimal.from(1).dividedBy(price), book: ticker.book, as_of: ticker.created_at });
+  }
+
+  return graph;
+}
+
+/**
+ * Finds the rate to convert `from` into `to`, using a direct book when one exists
+ * and otherwise routing through one intermediate currency.
+ *
+ * @param graph - Graph from buildRateGraph()
+ * @param from - Currency to convert from
+ * @param to - Currency to convert to
+ * @returns The conversion rate and route, or null if no route exists
+ */
+export function findConversionRate(graph: Map<string, RateEdge[]>, from: string, to: string): ConversionRate | null {
+  const source = from.toLowerCase();
+  const target = to.toLowerCase();
+
+  if (source === target) {
+    return { rate: Decimal.from(1), route: [], as_of: null };
+  }
+
+  // Breadth-first so the shortest route (direct book first) wins
+  let frontier: Array<{ currency: string; rate: Decimal; route: string[]; as_of: string | null }> = [
+    { currency: source, rate: Decimal.from(1), route: [], as_of: null },
+  ];
+  const visited = new Set([source]);
+
+  for (let depth = 0; depth < MAX_ROUTE_BOOKS; depth++) {
+    const next: typeof frontier = [];
+    for (const node of frontier) {
+      for (const edge of graph.get(node.currency) ?? []) {
+        if (visited.has(edge.to)) {
+          continue;
+        }
+
+        const step = {
+          currency: edge.to,
+          rate: node.rate.times(edge.rate),
+          route: [...node.route, edge.book],
+          as_of: earliest(node.as_of, edge.as_of),
+        };
+        if (edge.to === target) {
+          return { rate: step.rate, route: step.route, as_of: step.as_of };
+        }
+        next.push(step);
+      }
+    }
+    for (const node of next) {
+      visited.add(node.currency);
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+function earliest(a: string | null, b: string | null): string | null {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return Date.parse(a) <= Date.parse(b) ? a : b;
+}
+
+/**
+ * Values records in a quote currency using current Bitso ticker prices.
+ *
+ * @param client - Client used to fetch public tickers
+ * @param records - Records with a native `amount` and `currency`
+ * @param quoteCurrency - Currency to value the records in (e.g. 'mxn')
+ * @returns One valuation per record (null if no price route exists) and a summary with the grand total
+ */
+export async function valueRecords(
+  client: BitsoApiClient,
+  records: Array<{ amount: string; currency: string }>,
+  quoteCurrency: string
+): Promise<{ valuations: Array<Valuation | null>; summary: ValuationSummary }> {
+  const quote = quoteCurrency.toLowerCase();
+  const graph = buildRateGraph(await client.getTickers());
+  const rates = new Map<string, ConversionRate | null>();
+  const unpriced = new Set<string>();
+  const books = new Set<string>();
+  let total = Decimal.ZERO;
+  let oldest: string | null = null;
+
+  const valuations = records.map(record => {
+    const currency = record.currency.toLowerCase();
+    if (!rates.has(currency)) {
+      rates.set(currency, findConversionRate(graph, currency, quote));
+    }
+
+    const conversion = rates.get(currency);
+    if (!conversion) {
+      unpriced.add(currency);
+      return null;
+    }
+
+    const value = Decimal.from(record.amount).times(conversion.rate);
+    total = total.plus(value);
+    conversion.route.forEach(book => books.add(book));
+    oldest = earliest(oldest, conversion.as_of);
+
+    return {
+      quote_currency: quote,
+      value: formatAmount(value, quote),
+      rate: conversion.rate.round(RATE_DISPLAY_SCALE).toString(),
+      route: conversion.route,
+    };
+  });
+
+  return {
+    valuations,
+    summary: {
+      quote_currency: quote,
+      total: formatAmount(total, quote),
+      priced_records: valuations.filter(Boolean).length,
+      unpriced_currencies: [...unpriced],
+      price_source: {
+        source: PRICE_SOURCE,
+        as_of: oldest,
+        books: [...books],
+      },
+    },
+  };
+}
@@ -0,0 +1,235 @@
+import { AccountRegistry } from '../accounts.js';
+import { Funding, Withdrawal } from '../types.js';
+import { TERMINAL_STATUSES } from './status-history.js';
+
+export type WatchKind = 'wid' | 'fid' | 'origin_id';
+
+/**
+ * At most this many transactions are watched at once, to bound polling traffic.
+ */
+export const MAX_WATCHES = 100;
+
+export interface WatchTarget {
+  /** Account profile the transaction belongs to */
+  account: string;
+  kind: WatchKind;
+  value: string;
+}
+
+export interface Watch extends WatchTarget {
+  watch_id: string;
+  /** The withdrawal an origin_id watch resolved to, once it exists */
+  wid: string | null;
+  status: string | null;
+  resource_uri: string | null;
+  created_at: string;
+  expires_at: string;
+  last_checked_at: string | null;
+  last_error: string | null;
+}
+
+export interface WatchEvent {
+  event: 'status_changed' | 'expired';
+  watch: Watch;
+  previous_status: string | null;
+  /** True when the new status is final and the watch has been removed */
+  final: boolean;
+  transaction?: Withdrawal | Funding;
+}
+
+export interface WatcherOptions {
+  pollIntervalMs: number;
+  notify: (event: WatchEvent) => void | Promise<void>;
+  now?: () => Date;
+}
+
+const isTerminal = (status: string | null) => status !== null && TERMINAL_STATUSES.includes(status.toLowerCase());
+
+/**
+ * Polls watched withdrawals and fundings on an interval, bypassing the cache, and
+ * reports each status change through `notify`. A watch is removed when its
+ * transaction reaches a final status or when it expires. The timer only runs
+ * while something is watched and never keeps the process alive.
+ */
+export class TransactionWatcher {
+  private watches = new Map<string, Watch>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private now: () => Date;
+
+  constructor(private accounts: AccountRegistry, private options: WatcherOptions) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Starts watching the given transactions, fetching each once so its current status is known.
+   * Targets that are already final are returned but not watched; re-watching a target renews it.
+   * Every target is fetched before any watch is added or renewed, so a failure changes nothing.
+   *
+   * @throws Error if the watch limit would be exceeded, or a fetch fails (e.g. unknown wid)
+   */
+  async watch(requested: WatchTarget[], ttlMinutes: number): Promise<{ watching: Watch[]; already_final: Watch[] }> {
+    const targets = [...new Map(requested.map(target => [this.watchId(target), target])).values()];
+    this.assertCapacity(targets);
+
+    const transactions = await Promise.all(targets.map(target => this.fetch(target)));
+    // Other watch calls may have added watches while these fetches were running
+    this.assertCapacity(targets);
+
+    const expiresAt = new Date(this.now().getTime() + ttlMinutes * 60_000).toISOString();
+    const watching: Watch[] = [];
+    const alreadyFinal: Watch[] = [];
+
+    targets.forEach((target, index) => {
+      const watch: Watch = this.watches.get(this.watchId(target)) ?? {
+        ...target,
+        watch_id: this.watchId(target),
+        wid: target.kind === 'wid' ? target.value : null,
+        status: null,
+        resource_uri: null,
+        created_at: this.now().toISOString(),
+        expires_at: expiresAt,
+        last_checked_at: null,
+        last_error: null,
+      };
+      watch.expires_at = expiresAt;
+      this.applyTransaction(watch, transactions[index]);
+
+      if (isTerminal(watch.status)) {
+        this.watches.delete(watch.watch_id);
+        alreadyFinal.push(watch);
+      } else {
+        this.watches.set(watch.watch_id, watch);
+        watching.push(watch);
+      }
+    });
+    this.updateTimer();
+
+    return { watching, already_final: alreadyFinal };
+  }
+
+  /**
+   * Stops watching the given watch IDs (e.g. 'default:wid:abc123', 'treasury:origin_id:payout-1').
+   *
+   * @returns The watches that were removed
+   */
+  unwatch(watchIds: string[]): Watch[] {
+    const removed = watchIds
+      .map(watchId => this.watches.get(watchId))
+      .filter((watch): watch is Watch => Boolean(watch));
+
+    for (const watch of removed) {
+      this.watches.delete(watch.watch_id);
+    }
+    this.updateTimer();
+    return removed;
+  }
+
+  list(): Watch[] {
+    return [...this.watches.values()];
+  }
+
+  /**
+   * Checks every watch once: expires stale ones, then re-fetches the rest and
+   * notifies on status changes. Fetch errors are kept on the watch and retried next poll.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      for (const watch of this.list()) {
+        if (Date.parse(watch.expires_at) <= this.now().getTime()) {
+          this.watches.delete(watch.watch_id);
+          await this.options.notify({ event: 'expired', watch, previous_status: watch.status, final: false });
+          continue;
+        }
+
+        let transaction: Withdrawal | Funding | undefined;
+        try {
+          transaction = await this.fetch(watch);
+          watch.last_error = null;
+        } catch (error) {
+          watch.last_error = error instanceof Error ? error.message : String(error);
+          watch.last_checked_at = this.now().toISOString();
+          continue;
+        }
+
+        const previousStatus = watch.status;
+        this.applyTransaction(watch, transaction);
+
+        if (watch.status !== previousStatus) {
+          const final = isTerminal(watch.status);
+          if (final) {
+            this.watches.delete(watch.watch_id);
+          }
+          await this.options.notify({ event: 'status_changed', watch, previous_status: previousStatus, final, transaction });
+        }
+      }
+    } finally {
+      this.polling = false;
+      this.updateTimer();
+    }
+  }
+
+  /**
+   * Drops every watch and stops the timer, e.g. when the MCP connection closes.
+   */
+  stop(): void {
+    this.watches.clear();
+    this.updateTimer();
+  }
+
+  private assertCapacity(targets: WatchTarget[]): void {
+    const newTargets = targets.filter(target => !this.watches.has(this.watchId(target)));
+    if (this.watches.size + newTargets.length > MAX_WATCHES) {
+      throw new Error(`At most ${MAX_WATCHES} transactions can be watched at once; unwatch some first`);
+    }
+  }
+
+  private watchId(target: WatchTarget): string {
+    return `${target.account}:${target.kind}:${target.value}`;
+  }
+
+  private async fetch(target: WatchTarget): Promise<Withdrawal | Funding | undefined> {
+    const client = this.accounts.get(target.account);
+    switch (target.kind) {
+      case 'wid':
+        return client.getWithdrawal(target.value, { fresh: true });
+      case 'fid':
+        return client.getFunding(target.value, { fresh: true });
+      case 'origin_id': {
+        // The withdrawal may not exist yet, so keep asking by origin_id until it does
+        const response = await client.getWithdrawals({ origin_id: target.value }, { fresh: true });
+        return response.payload?.[0];
+      }
+    }
+  }
+
+  private applyTransaction(watch: Watch, transaction: Withdrawal | Funding | undefined): void {
+    watch.last_checked_at = this.now().toISOString();
+    if (!transaction) {
+      return;
+    }
+
+    watch.status = transaction.status;
+    if ('wid' in transaction) {
+      watch.wid = transaction.wid;
+      watch.resource_uri = `bitso://${watch.account}/withdrawals/${transaction.wid}`;
+    } else {
+      watch.resource_uri = `bitso://${watch.account}/fundings/${transaction.fid}`;
+    }
+  }
+
+  private updateTimer(): void {
+    if (this.watches.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    } else if (this.watches.size > 0 && !this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+      this.timer.unref();
+    }
+  }
+}
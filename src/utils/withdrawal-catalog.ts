@@ -0,0 +1,80 @@
+import { UnknownFilterValueError } from '../errors.js';
+import { WithdrawalMethod } from '../types.js';
+
+export const WITHDRAWAL_STATUSES = ['pending', 'processing', 'complete', 'failed'] as const;
+export const FUNDING_STATUSES = ['pending', 'complete', 'failed', 'cancelled'] as const;
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Edit distance between two strings, counting insertions, deletions, substitutions
+ * and swaps of adjacent characters (the commonest typo) as one edit each.
+ */
+export function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Picks the candidates closest to a mistyped value: prefix matches first, then
+ * anything within an edit distance of a third of the value's length (at least 1).
+ */
+export function suggestClosest(value: string, candidates: readonly string[]): string[] {
+  const needle = value.toLowerCase();
+  const threshold = Math.max(1, Math.floor(needle.length / 3));
+
+  return [...new Set(candidates)]
+    .map(candidate => ({
+      candidate,
+      distance: candidate.startsWith(needle) || needle.startsWith(candidate) ? 0 : editDistance(needle, candidate),
+    }))
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Collects every value a withdrawal's `method` may take for the catalog: the
+ * method codes themselves plus their networks and protocols, lower-cased.
+ */
+export function catalogMethodValues(catalog: Record<string, WithdrawalMethod[]>): string[] {
+  const values = Object.values(catalog)
+    .flat()
+    .flatMap(method => [method.method, method.network, method.protocol])
+    .filter((value): value is string => Boolean(value))
+    .map(value => value.toLowerCase());
+
+  return [...new Set(values)].sort();
+}
+
+/**
+ * Checks a filter value against its allowed values, case-insensitively.
+ *
+ * @param name - Parameter name, for the error message (e.g. 'method')
+ * @throws UnknownFilterValueError naming close matches, or all values when there are few
+ */
+export function assertKnownFilterValue(name: string, value: string, allowed: readonly string[]): void {
+  if (allowed.includes(value.toLowerCase())) {
+    return;
+  }
+
+  const suggestions = suggestClosest(value, allowed);
+  const message = suggestions.length > 0
+    ? `Unknown ${name} '${value}'. Did you mean: ${suggestions.join(', ')}?`
+    : `Unknown ${name} '${value}'.${allowed.length <= 10 ? ` Valid values: ${allowed.join(', ')}` : ''}`;
+  throw new UnknownFilterValueError(message);
+}
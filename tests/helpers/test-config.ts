@@ -1,13 +1,40 @@
 import { Config } from '../../src/config.js';
 
-export function createTestConfig(): Config {
+export function createTestConfig(overrides: Partial<Config> = {}): Config {
   return {
     apiKey: 'test-api-key',
     apiSecret: 'test-api-secret',
     apiEndpoint: 'https://api.bitso.com',
+    accounts: {},
     cacheTtlSeconds: 300,
+    publicCacheTtlSeconds: 5,
+    catalogCacheTtlSeconds: 3600,
+    cacheBackend: 'memory',
+    cacheMaxEntries: 1000,
+    cacheMaxBytes: 10 * 1024 * 1024,
+    cacheEndpointTtlSeconds: {},
+    cacheStatusTtlSeconds: { pending: 10, processing: 10, complete: 86400, failed: 86400, cancelled: 86400 },
     timeout: 30000,
+    retryMaxAttempts: 3,
+    retryBaseDelayMs: 1,
+    maxConcurrentRequests: 5,
+    privateRateLimitPerMinute: 300,
+    publicRateLimitPerMinute: 60,
+    enableWriteOperations: false,
+    confirmationTtlSeconds: 300,
+    withdrawalAllowlist: {},
+    withdrawalMaxAmounts: {},
+    stuckThresholdMinutes: { sp: 30, btc: 120 },
+    stuckDefaultThresholdMinutes: 60,
+    watchPollIntervalSeconds: 30,
+    watchTtlMinutes: 60,
+    httpMaxSessions: 100,
+    httpSessionIdleTimeoutSeconds: 1800,
+    httpAuthTokens: {},
+    httpRequiredScopes: [],
+    httpAllowedOrigins: [],
     defaultLimit: 25,
     debug: true,
+    ...overrides,
   };
 }
\ No newline at end of file
@@ -1,27 +1,24 @@
 /**
  * Test Server Factory - Creates real MCP server instances for integration testing
- * 
- * This factory creates actual MCP server instances with all tools registered,
- * enabling true integration testing through the MCP protocol.
+ *
+ * This factory builds the production server through createMcpServer, with test
+ * configuration, enabling true integration testing through the MCP protocol.
  */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { AccountRegistry } from '../../src/accounts.js'
 import { BitsoApiClient } from '../../src/client.js'
-import { registerBitsoTools } from '../../src/tools/bitso-tools.js'
+import { Config } from '../../src/config.js'
+import { createMcpServer } from '../../src/server.js'
 import { createTestConfig } from './test-config.js'
 
-export function createTestServer(): { server: McpServer, client: BitsoApiClient } {
-  // Create test configuration and client
-  const config = createTestConfig()
-  const client = new BitsoApiClient(config)
-  
-  // Create MCP server
-  const server = new McpServer({
-    name: "bitso-mcp-server-test",
-    version: "1.0.0-test",
-  })
-  
-  // Register all tool categories (same as production server)
-  registerBitsoTools(server, client)
-  
-  return { server, client }
-}
\ No newline at end of file
+export function createTestServer(configOverrides: Partial<Config> = {}): { server: McpServer, client: BitsoApiClient, accounts: AccountRegistry } {
+  // Create test configuration and one client per account; `client` is the default account's
+  const config = createTestConfig(configOverrides)
+  const accounts = AccountRegistry.fromConfig(config)
+  const client = accounts.get()
+
+  // Same server, with every tool category registered, as production
+  const server = createMcpServer(accounts)
+
+  return { server, client, accounts }
+}
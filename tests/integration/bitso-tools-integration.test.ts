@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server as mswServer } from '../mocks/server.js';
+
+describe('Bitso Tools Integration Tests', () => {
+  let server: McpServer;
+  let mcpHelper: McpTestHelper;
+
+  beforeEach(() => {
+    const testServer = createTestServer();
+    server = testServer.server;
+    mcpHelper = new McpTestHelper(server);
+  });
+
+  describe('MCP Protocol Compliance', () => {
+    it('should register the withdrawal and funding tools', () => {
+      const tools = mcpHelper.listTools();
+      expect(tools).toEqual(expect.arrayContaining([
+        'list_withdrawals',
+        'get_withdrawal',
+        'get_withdrawals_by_ids',
+        'get_withdrawals_by_origin_ids',
+        'list_fundings',
+        'get_funding',
+      ]));
+    });
+  });
+
+  describe('error handling', () => {
+    it('should return an actionable tool error for Bitso auth failures', async () => {
+      mswServer.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals/:wid', () =>
+          HttpResponse.json({ success: false, error: { code: '0206', message: 'Authentication required' } }, { status: 401 })
+        )
+      );
+
+      const result = await mcpHelper.callTool('get_withdrawal', { wid: 'wid-1' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Authentication required');
+      expect(result.content[0].text).toContain('0206');
+      expect(result.content[0].text).toContain('Hint: Check BITSO_API_KEY');
+    });
+
+    it('should flag validation errors as tool errors', async () => {
+      const result = await mcpHelper.callTool('get_withdrawal', {});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Validation error');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { http, HttpResponse, passthrough } from 'msw';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { TokenAuthenticator } from '../../src/auth.js';
+import { AccountRegistry } from '../../src/accounts.js';
+import { createHttpApp } from '../../src/http-server.js';
+import { createMcpServer } from '../../src/server.js';
+import { SessionManager } from '../../src/session-manager.js';
+import { createTestConfig } from '../helpers/test-config.js';
+import { server as mswServer } from '../mocks/server.js';
+
+const CI_TOKEN = 'ci-token-0123456789abcdef';
+const OPS_TOKEN = 'ops-token-0123456789abcdef';
+const INTROSPECTION_URL = 'https://auth.example.com/oauth/introspect';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw-client', version: '1.0.0' } },
+};
+
+describe('HTTP transport auth', () => {
+  let httpServer: Server;
+  let sessions: SessionManager;
+  let baseUrl: string;
+  let introspectionCalls: URLSearchParams[];
+
+  const post = (headers: Record<string, string>, body: unknown = initializeRequest) =>
+    fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    introspectionCalls = [];
+    const accounts = AccountRegistry.fromConfig(createTestConfig());
+    sessions = new SessionManager({ createServer: () => createMcpServer(accounts), maxSessions: 10, idleTimeoutMs: 60_000 });
+    const authenticator = new TokenAuthenticator({
+      tokens: { ci: CI_TOKEN, ops: OPS_TOKEN },
+      introspection: { url: INTROSPECTION_URL, clientId: 'bitso-mcp', clientSecret: 'secret', timeoutMs: 1000 },
+      requiredScopes: ['bitso:read'],
+      authorizationServer: 'https://auth.example.com',
+    });
+
+    httpServer = createHttpApp(sessions, { authenticator, allowedOrigins: ['http://localhost:6274'] }).listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+    mswServer.use(
+      http.all(`${baseUrl}/*`, () => passthrough()),
+      http.post(INTROSPECTION_URL, async ({ request }) => {
+        const form = new URLSearchParams(await request.text());
+        introspectionCalls.push(form);
+        switch (form.get('token')) {
+          case 'oauth-read':
+            return HttpResponse.json({ active: true, sub: 'alice', client_id: 'dashboard', scope: 'openid bitso:read', exp: Math.floor(Date.now() / 1000) + 600 });
+          case 'oauth-other':
+            return HttpResponse.json({ active: true, sub: 'bob', scope: 'openid', exp: Math.floor(Date.now() / 1000) + 600 });
+          default:
+            return HttpResponse.json({ active: false });
+        }
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await sessions.closeAll();
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should challenge requests without a token with the resource metadata URL', async () => {
+    const response = await post({});
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe(
+      `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`
+    );
+    expect(sessions.size).toBe(0);
+  });
+
+  it('should reject unknown tokens as invalid_token', async () => {
+    const response = await post({ Authorization: 'Bearer not-a-real-token' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('error="invalid_token"');
+    expect(await response.json()).toMatchObject({ error: 'invalid_token', error_description: 'Bearer token is not active' });
+  });
+
+  it('should serve the protected resource metadata without a token', async () => {
+    const response = await fetch(`${baseUrl}/.well-known/oauth-protected-resource`);
+
+    expect(await response.json()).toEqual({
+      resource: `${baseUrl}/mcp`,
+      authorization_servers: ['https://auth.example.com'],
+      bearer_methods_supported: ['header'],
+      scopes_supported: ['bitso:read'],
+    });
+  });
+
+  it('should accept a static token and log its label', async () => {
+    const log = vi.spyOn(console, 'error');
+    const client = new Client({ name: 'ci', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${CI_TOKEN}` } },
+    });
+
+    await client.connect(transport);
+    const tools = await client.listTools();
+
+    expect(tools.tools.length).toBeGreaterThan(0);
+    expect(introspectionCalls).toHaveLength(0);
+    expect(log).toHaveBeenCalledWith('AUTH INFO: Authenticated request', expect.objectContaining({ principal: 'ci', source: 'static' }));
+
+    await client.close();
+    log.mockRestore();
+  });
+
+  it('should introspect other tokens, caching active results', async () => {
+    const first = await post({ Authorization: 'Bearer oauth-read' });
+    expect(first.status).toBe(200);
+    await first.text();
+
+    const sessionId = first.headers.get('mcp-session-id')!;
+    const second = await post(
+      { Authorization: 'Bearer oauth-read', 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' }
+    );
+    expect(second.status).toBe(202);
+
+    expect(introspectionCalls).toHaveLength(1);
+    expect(introspectionCalls[0].get('token_type_hint')).toBe('access_token');
+  });
+
+  it('should answer 403 insufficient_scope for tokens without the required scope', async () => {
+    const response = await post({ Authorization: 'Bearer oauth-other' });
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('www-authenticate')).toContain('error="insufficient_scope"');
+  });
+
+  it('should not let one principal use another principal\'s session', async () => {
+    const initialized = await post({ Authorization: `Bearer ${CI_TOKEN}` });
+    await initialized.text();
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+
+    const hijack = await post(
+      { Authorization: `Bearer ${OPS_TOKEN}`, 'mcp-session-id': sessionId },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+    );
+
+    expect(hijack.status).toBe(404);
+    expect(sessions.size).toBe(1);
+  });
+
+  it('should only allow allowlisted browser origins', async () => {
+    const refused = await post({ Authorization: `Bearer ${CI_TOKEN}`, Origin: 'https://evil.example.com' });
+    expect(refused.status).toBe(403);
+
+    const preflight = await fetch(`${baseUrl}/mcp`, { method: 'OPTIONS', headers: { Origin: 'http://localhost:6274' } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('http://localhost:6274');
+
+    const allowed = await post({ Authorization: `Bearer ${CI_TOKEN}`, Origin: 'http://localhost:6274' });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('http://localhost:6274');
+    await allowed.text();
+  });
+});
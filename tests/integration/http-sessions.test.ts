@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { http, passthrough } from 'msw';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { AccountRegistry } from '../../src/accounts.js';
+import { createHttpApp } from '../../src/http-server.js';
+import { createMcpServer } from '../../src/server.js';
+import { SessionManager, SessionManagerOptions } from '../../src/session-manager.js';
+import { createTestConfig } from '../helpers/test-config.js';
+import { server as mswServer } from '../mocks/server.js';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw-client', version: '1.0.0' } },
+};
+
+describe('HTTP transport sessions', () => {
+  let httpServer: Server;
+  let sessions: SessionManager;
+  let baseUrl: string;
+  let clients: Client[];
+
+  const start = async (options: Partial<SessionManagerOptions> = {}) => {
+    const accounts = AccountRegistry.fromConfig(createTestConfig());
+    sessions = new SessionManager({
+      createServer: () => createMcpServer(accounts),
+      maxSessions: 10,
+      idleTimeoutMs: 60_000,
+      ...options,
+    });
+    httpServer = createHttpApp(sessions, { allowedOrigins: [] }).listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    // Let requests to the local server through the Bitso API mocks
+    mswServer.use(http.all(`${baseUrl}/*`, () => passthrough()));
+  };
+
+  const connect = async (name: string) => {
+    const client = new Client({ name, version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  const rawInitialize = () =>
+    fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(initializeRequest),
+    });
+
+  beforeEach(() => {
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await sessions.closeAll();
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should give concurrent clients separate sessions that both work', async () => {
+    await start();
+
+    const [first, second] = await Promise.all([connect('first'), connect('second')]);
+
+    expect(first.transport.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second.transport.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(sessions.size).toBe(2);
+
+    const [firstTools, secondTools] = await Promise.all([first.client.listTools(), second.client.listTools()]);
+    expect(firstTools.tools.map(tool => tool.name)).toContain('list_withdrawals');
+    expect(secondTools.tools).toHaveLength(firstTools.tools.length);
+
+    const [firstResult, secondResult] = await Promise.all([
+      first.client.callTool({ name: 'list_watches' }),
+      second.client.callTool({ name: 'list_withdrawals' }),
+    ]);
+    expect(firstResult.isError).toBeFalsy();
+    expect(secondResult.isError).toBeFalsy();
+  });
+
+  it('should end a session on DELETE without affecting the others', async () => {
+    await start();
+    const [first, second] = await Promise.all([connect('first'), connect('second')]);
+    const endedSessionId = first.transport.sessionId;
+
+    await first.transport.terminateSession();
+
+    expect(sessions.size).toBe(1);
+    const stale = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': endedSessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(stale.status).toBe(404);
+
+    const tools = await second.client.listTools();
+    expect(tools.tools.length).toBeGreaterThan(0);
+  });
+
+  it('should refuse requests without a session unless they initialize', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(sessions.size).toBe(0);
+  });
+
+  it('should cap concurrent sessions', async () => {
+    await start({ maxSessions: 2 });
+    await Promise.all([connect('first'), connect('second')]);
+
+    const refused = await rawInitialize();
+
+    expect(refused.status).toBe(503);
+    expect((await refused.json()).error.message).toContain('Too many sessions');
+    expect(sessions.size).toBe(2);
+  });
+
+  it('should close idle sessions and free their slots', async () => {
+    let now = Date.now();
+    await start({ maxSessions: 1, now: () => now });
+
+    const first = await rawInitialize();
+    expect(first.status).toBe(200);
+    await first.text();
+    expect(sessions.size).toBe(1);
+
+    now += 61_000;
+    // The cap is full, so the new initialize closes the idle session to make room
+    const second = await rawInitialize();
+    expect(second.status).toBe(200);
+    expect(second.headers.get('mcp-session-id')).not.toBe(first.headers.get('mcp-session-id'));
+    await second.text();
+    expect(sessions.size).toBe(1);
+
+    now += 61_000;
+    expect(await sessions.closeIdleSessions()).toBe(1);
+    expect(sessions.size).toBe(0);
+  });
+});
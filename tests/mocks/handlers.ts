@@ -1,5 +1,244 @@
 import { http, HttpResponse } from 'msw';
-import { WithdrawalListResponse } from '../../src/types.js';
+import {
+  AccountFees,
+  AvailableBook,
+  BalanceResponse,
+  FundingDestination,
+  LedgerListResponse,
+  OrderBook,
+  PublicTrade,
+  Order,
+  Ticker,
+  UserTrade,
+  Withdrawal,
+  WithdrawalListResponse,
+  WithdrawalMethod
+} from '../../src/types.js';
+
+export const balancesFixture: BalanceResponse = {
+  success: true,
+  payload: {
+    balances: [
+      { currency: 'mxn', total: '1500.50', locked: '500.00', available: '1000.50' },
+      { currency: 'btc', total: '0.12345678', locked: '0.00000000', available: '0.12345678' },
+      { currency: 'eth', total: '0.00000000', locked: '0.00000000', available: '0.00000000' },
+    ]
+  }
+};
+
+export const ledgerFixture: LedgerListResponse = {
+  success: true,
+  payload: [
+    {
+      eid: 'eid-3',
+      operation: 'withdrawal',
+      created_at: '2025-01-03T10:00:00.000+00:00',
+      balance_updates: [{ currency: 'mxn', amount: '-250.00' }],
+      details: { wid: 'wid-1', method: 'sp' }
+    },
+    {
+      eid: 'eid-2',
+      operation: 'trade',
+      created_at: '2025-01-02T10:00:00.000+00:00',
+      balance_updates: [
+        { currency: 'btc', amount: '-0.00100000' },
+        { currency: 'mxn', amount: '1750.25' }
+      ],
+      details: { tid: 51756, oid: 'oid-1' }
+    },
+    {
+      eid: 'eid-1',
+      operation: 'funding',
+      created_at: '2025-01-01T10:00:00.000+00:00',
+      balance_updates: [{ currency: 'btc', amount: '0.00100000' }],
+      details: { fid: 'fid-1', method: 'btc' }
+    }
+  ]
+};
+
+export const availableBooksFixture: AvailableBook[] = [
+  {
+    book: 'btc_mxn',
+    minimum_amount: '0.00000100',
+    maximum_amount: '5000.00000000',
+    minimum_price: '100.00',
+    maximum_price: '20000000.00',
+    minimum_value: '10.00',
+    maximum_value: '100000000.00',
+    tick_size: '10',
+    fees: { flat_rate: { maker: '0.500', taker: '0.650' } }
+  },
+  {
+    book: 'eth_btc',
+    minimum_amount: '0.00001000',
+    maximum_amount: '10000.00000000',
+    minimum_price: '0.00000100',
+    maximum_price: '5000.00000000',
+    minimum_value: '0.00000100',
+    maximum_value: '2000.00000000',
+    tick_size: '0.00000001',
+    fees: { flat_rate: { maker: '0.500', taker: '0.650' } }
+  },
+  {
+    book: 'usd_mxn',
+    minimum_amount: '0.01',
+    maximum_amount: '1000000.00',
+    minimum_price: '1.00',
+    maximum_price: '100.00',
+    minimum_value: '0.01',
+    maximum_value: '100000000.00',
+    tick_size: '0.01',
+    fees: { flat_rate: { maker: '0.500', taker: '0.650' } }
+  }
+];
+
+export const tickersFixture: Ticker[] = [
+  {
+    book: 'btc_mxn',
+    volume: '22.31349615',
+    high: '1800000.00',
+    last: '1750000.00',
+    low: '1700000.00',
+    vwap: '1751234.56',
+    ask: '1750010.00',
+    bid: '1749990.00',
+    created_at: '2025-01-15T12:00:00+00:00'
+  },
+  {
+    book: 'eth_btc',
+    volume: '120.50000000',
+    high: '0.03600000',
+    last: '0.03500000',
+    low: '0.03400000',
+    vwap: '0.03510000',
+    ask: '0.03500100',
+    bid: '0.03499900',
+    created_at: '2025-01-15T12:00:00+00:00'
+  },
+  {
+    book: 'usd_mxn',
+    volume: '500000.00',
+    high: '20.60',
+    last: '20.50',
+    low: '20.40',
+    vwap: '20.50',
+    ask: '20.51',
+    bid: '20.49',
+    created_at: '2025-01-15T12:00:00+00:00'
+  }
+];
+
+export const orderBookFixture: OrderBook = {
+  asks: [
+    { book: 'btc_mxn', price: '1750010.00', amount: '0.10000000' },
+    { book: 'btc_mxn', price: '1750500.00', amount: '0.25000000' },
+    { book: 'btc_mxn', price: '1751000.00', amount: '1.00000000' }
+  ],
+  bids: [
+    { book: 'btc_mxn', price: '1749990.00', amount: '0.20000000' },
+    { book: 'btc_mxn', price: '1749500.00', amount: '0.50000000' }
+  ],
+  updated_at: '2025-01-15T12:00:00+00:00',
+  sequence: '27214'
+};
+
+export const publicTradesFixture: PublicTrade[] = [
+  { book: 'btc_mxn', created_at: '2025-01-15T11:59:00+0000', amount: '0.01000000', maker_side: 'buy', price: '1750000.00', tid: 1002 },
+  { book: 'btc_mxn', created_at: '2025-01-15T11:58:00+0000', amount: '0.02000000', maker_side: 'sell', price: '1749900.00', tid: 1001 }
+];
+
+export const userTradesFixture: UserTrade[] = [
+  {
+    book: 'btc_mxn',
+    tid: 51757,
+    oid: 'oid-2',
+    side: 'sell',
+    maker_side: 'buy',
+    major: '-0.00100000',
+    minor: '1750.25',
+    price: '1750250.00',
+    fees_amount: '11.37',
+    fees_currency: 'mxn',
+    created_at: '2025-01-02T10:00:00.000+00:00'
+  },
+  {
+    book: 'btc_mxn',
+    tid: 51756,
+    oid: 'oid-1',
+    origin_id: 'client-order-1',
+    side: 'buy',
+    maker_side: 'buy',
+    major: '0.00200000',
+    minor: '-3490.00',
+    price: '1745000.00',
+    fees_amount: '0.00000100',
+    fees_currency: 'btc',
+    created_at: '2025-01-01T10:00:00.000+00:00'
+  }
+];
+
+export const ordersFixture: Order[] = [
+  {
+    oid: 'oid-1',
+    origin_id: 'client-order-1',
+    book: 'btc_mxn',
+    side: 'buy',
+    type: 'limit',
+    status: 'completed',
+    price: '1745000.00',
+    original_amount: '0.00200000',
+    unfilled_amount: '0.00000000',
+    original_value: '3490.00',
+    created_at: '2025-01-01T09:59:00.000+00:00',
+    updated_at: '2025-01-01T10:00:00.000+00:00'
+  },
+  {
+    oid: 'oid-3',
+    book: 'eth_btc',
+    side: 'sell',
+    type: 'limit',
+    status: 'open',
+    price: '0.03600000',
+    original_amount: '1.00000000',
+    unfilled_amount: '1.00000000',
+    original_value: '0.03600000',
+    created_at: '2025-01-03T09:00:00.000+00:00',
+    updated_at: '2025-01-03T09:00:00.000+00:00'
+  }
+];
+
+export const feesFixture: AccountFees = {
+  fees: [
+    { book: 'btc_mxn', fee_percent: '0.6500', maker_fee_percent: '0.5000', taker_fee_percent: '0.6500' }
+  ],
+  withdrawal_fees: { btc: '0.00005', eth: '0.0025', mxn: '0' }
+};
+
+export const withdrawalMethodsFixture: Record<string, WithdrawalMethod[]> = {
+  btc: [
+    { method: 'btc', name: 'Bitcoin', network: 'btc', protocol: 'btc', asset: 'btc', withdrawal_minimum: '0.0001', required_fields: ['address'] }
+  ],
+  eth: [
+    { method: 'eth', name: 'Ethereum', network: 'eth', protocol: 'erc20', asset: 'eth', withdrawal_minimum: '0.001', required_fields: ['address'] }
+  ],
+  mxn: [
+    {
+      method: 'sp',
+      name: 'SPEI',
+      network: 'spei',
+      withdrawal_minimum: '10.00',
+      withdrawal_maximum: '2000000.00',
+      fee: '0.00',
+      required_fields: ['clabe', 'recipient_given_names', 'recipient_family_names']
+    }
+  ]
+};
+
+export const fundingDestinationsFixture: Record<string, FundingDestination> = {
+  'usdc:polygon': { account_identifier_name: 'Polygon Address', account_identifier: '0x5f0c7b1a9e2d4c3b8a6f1e0d9c8b7a6f5e4d3c2b', network: 'polygon' },
+  'mxn:': { account_identifier_name: 'SPEI CLABE', account_identifier: '646180115400000002' },
+  'xrp:': { account_identifier_name: 'Ripple Address', account_identifier: 'rLHzPsX6oXkzU2qL12kHCH8G8cnZv1rBJh?dt=4815162342' }
+};
 
 export const handlers = [
   // Bitso API withdrawals endpoint for testConnection
@@ -10,4 +249,113 @@ export const handlers = [
     };
     return HttpResponse.json(response, { status: 200 });
   }),
-];
\ No newline at end of file
+
+  http.get('https://api.bitso.com/api/v3/balance', () => {
+    return HttpResponse.json(balancesFixture, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/ledger', () => {
+    return HttpResponse.json(ledgerFixture, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/user_trades', () => {
+    return HttpResponse.json({ success: true, payload: userTradesFixture }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/order_trades/:oid', ({ params }) => {
+    return HttpResponse.json({ success: true, payload: userTradesFixture.filter(t => t.oid === params.oid) }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/order_trades', ({ request }) => {
+    const originId = new URL(request.url).searchParams.get('origin_id');
+    return HttpResponse.json({ success: true, payload: userTradesFixture.filter(t => t.origin_id === originId) }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/orders', ({ request }) => {
+    const url = new URL(request.url);
+    const oids = url.searchParams.get('oids')?.split(',') ?? [];
+    const originIds = url.searchParams.get('origin_ids')?.split(',') ?? [];
+    const orders = ordersFixture.filter(o => oids.includes(o.oid) || (o.origin_id && originIds.includes(o.origin_id)));
+    return HttpResponse.json({ success: true, payload: orders }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/open_orders', ({ request }) => {
+    const book = new URL(request.url).searchParams.get('book');
+    const orders = ordersFixture.filter(o => o.status === 'open' && (!book || o.book === book));
+    return HttpResponse.json({ success: true, payload: orders }, { status: 200 });
+  }),
+
+  http.delete('https://api.bitso.com/api/v3/orders/:oids', ({ params }) => {
+    // Bitso joins oids with '-'; fixture oids contain dashes themselves, so match them as segments
+    const path = `-${params.oids}-`;
+    const cancelled = ordersFixture.filter(o => o.status === 'open' && path.includes(`-${o.oid}-`));
+    return HttpResponse.json({ success: true, payload: cancelled.map(o => o.oid) }, { status: 200 });
+  }),
+
+  http.post('https://api.bitso.com/api/v3/withdrawal', async ({ request }) => {
+    const body = await request.json() as Record<string, string>;
+    const withdrawal: Withdrawal = {
+      wid: 'wid-new',
+      status: 'pending',
+      created_at: '2025-01-15T12:00:00+00:00',
+      currency: body.currency,
+      method: body.network,
+      network: body.network,
+      amount: body.amount,
+      origin_id: body.origin_id,
+      details: { address: body.address }
+    };
+    return HttpResponse.json({ success: true, payload: withdrawal }, { status: 200 });
+  }),
+
+  http.post('https://api.bitso.com/api/v3/orders', () => {
+    return HttpResponse.json({ success: true, payload: { oid: 'oid-new' } }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/fees', () => {
+    return HttpResponse.json({ success: true, payload: feesFixture }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/withdrawal_methods/:currency', ({ params }) => {
+    const methods = withdrawalMethodsFixture[String(params.currency)];
+    if (!methods) {
+      return HttpResponse.json({ success: false, error: { code: '0301', message: 'Unknown currency' } }, { status: 400 });
+    }
+    return HttpResponse.json({ success: true, payload: methods }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/funding_destination', ({ request }) => {
+    const url = new URL(request.url);
+    const key = `${url.searchParams.get('fund_currency')}:${url.searchParams.get('network') ?? ''}`;
+    const destination = fundingDestinationsFixture[key];
+    if (!destination) {
+      return HttpResponse.json({ success: false, error: { code: '0301', message: 'Unknown currency or network' } }, { status: 400 });
+    }
+    return HttpResponse.json({ success: true, payload: destination }, { status: 200 });
+  }),
+
+  // Public market data endpoints
+  http.get('https://api.bitso.com/api/v3/available_books', () => {
+    return HttpResponse.json({ success: true, payload: availableBooksFixture }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/ticker', ({ request }) => {
+    const book = new URL(request.url).searchParams.get('book');
+    if (!book) {
+      return HttpResponse.json({ success: true, payload: tickersFixture }, { status: 200 });
+    }
+    const ticker = tickersFixture.find(t => t.book === book);
+    if (!ticker) {
+      return HttpResponse.json({ success: false, error: { code: '0301', message: 'Unknown OrderBook' } }, { status: 400 });
+    }
+    return HttpResponse.json({ success: true, payload: ticker }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/order_book', () => {
+    return HttpResponse.json({ success: true, payload: orderBookFixture }, { status: 200 });
+  }),
+
+  http.get('https://api.bitso.com/api/v3/trades', () => {
+    return HttpResponse.json({ success: true, payload: publicTradesFixture }, { status: 200 });
+  }),
+];
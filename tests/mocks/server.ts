@@ -0,0 +1,5 @@
+import { setupServer } from 'msw/node';
+import { handlers } from './handlers.js';
+
+// Shared MSW server so individual tests can override handlers with server.use()
+export const server = setupServer(...handlers);
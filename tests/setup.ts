@@ -1,9 +1,5 @@
 import { beforeAll, afterEach, afterAll } from 'vitest';
-import { setupServer } from 'msw/node';
-import { handlers } from './mocks/handlers.js';
-
-// Setup MSW server for API mocking
-const server = setupServer(...handlers);
+import { server } from './mocks/server.js';
 
 // Start server before all tests
 beforeAll(() => {
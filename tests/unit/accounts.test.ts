@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { AccountRegistry } from '../../src/accounts.js';
+import { Withdrawal } from '../../src/types.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestConfig } from '../helpers/test-config.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+
+const accountsConfig = {
+  accounts: {
+    treasury: { apiKey: 'treasury-key', apiSecret: 'treasury-secret' },
+    ops: { apiKey: 'ops-key', apiSecret: 'ops-secret' },
+  },
+};
+
+// Bitso's Authorization header is 'Bitso <key>:<nonce>:<signature>'
+const apiKeyOf = (request: Request) => /^Bitso ([^:]+):/.exec(request.headers.get('authorization') ?? '')?.[1];
+
+const withdrawal = (wid: string, amount: string): Withdrawal => ({
+  wid,
+  status: 'complete',
+  created_at: '2025-01-02T10:00:00Z',
+  currency: 'mxn',
+  method: 'sp',
+  amount,
+  details: {},
+});
+
+describe('account profiles', () => {
+  describe('AccountRegistry', () => {
+    it('should build one client per profile plus the default account', () => {
+      const accounts = AccountRegistry.fromConfig(createTestConfig(accountsConfig));
+
+      expect(accounts.names()).toEqual(['default', 'treasury', 'ops']);
+      expect(accounts.defaultAccount).toBe('default');
+      expect(accounts.get('treasury').account).toBe('treasury');
+      expect(accounts.get()).toBe(accounts.get('default'));
+    });
+
+    it('should default to the first profile when there are no top-level credentials', () => {
+      const accounts = AccountRegistry.fromConfig(createTestConfig({ ...accountsConfig, apiKey: undefined, apiSecret: undefined }));
+
+      expect(accounts.names()).toEqual(['treasury', 'ops']);
+      expect(accounts.get().account).toBe('treasury');
+    });
+
+    it('should share one public request budget across accounts', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/ticker', () => {
+          calls++;
+          return HttpResponse.json({ success: true, payload: { book: `book_${calls}` } });
+        })
+      );
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+      const accounts = AccountRegistry.fromConfig(createTestConfig({ ...accountsConfig, publicRateLimitPerMinute: 2 }));
+
+      try {
+        await accounts.get('treasury').getTicker('btc_mxn');
+        await accounts.get('ops').getTicker('eth_mxn');
+        const third = accounts.get('default').getTicker('xrp_mxn');
+        await vi.advanceTimersByTimeAsync(59_000);
+        expect(calls).toBe(2);
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        await third;
+        expect(calls).toBe(3);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should enable writes only for the write accounts and apply per-profile withdrawal limits', () => {
+      const accounts = AccountRegistry.fromConfig(createTestConfig({
+        accounts: {
+          ...accountsConfig.accounts,
+          ops: { apiKey: 'ops-key', apiSecret: 'ops-secret', withdrawalMaxAmounts: { mxn: '1000' } },
+        },
+        enableWriteOperations: true,
+        writeAccounts: ['ops'],
+        withdrawalAllowlist: { mxn: ['012180000000000008'] },
+        withdrawalMaxAmounts: { mxn: '50000' },
+      }));
+
+      expect(accounts.get('treasury').writeOperationsEnabled()).toBe(false);
+      expect(() => accounts.get('treasury').assertWithdrawalAllowed('mxn', '012180000000000008', '500'))
+        .toThrow('write operations are disabled');
+      expect(accounts.get('ops').writeOperationsEnabled()).toBe(true);
+      expect(() => accounts.get('ops').assertWithdrawalAllowed('mxn', '012180000000000008', '500')).not.toThrow();
+      expect(() => accounts.get('ops').assertWithdrawalAllowed('mxn', '012180000000000008', '5000')).toThrow('exceeds');
+    });
+
+    it('should suggest close matches for unknown accounts', () => {
+      const accounts = AccountRegistry.fromConfig(createTestConfig(accountsConfig));
+
+      expect(() => accounts.get('tresury')).toThrow("Unknown account 'tresury'. Did you mean: treasury?");
+    });
+  });
+
+  describe('tools', () => {
+    let mcpHelper: McpTestHelper;
+    let withdrawalsByKey: Record<string, Withdrawal[]>;
+
+    beforeEach(() => {
+      withdrawalsByKey = {
+        'test-api-key': [withdrawal('w-default', '100.10')],
+        'treasury-key': [withdrawal('w-treasury-1', '200.20'), withdrawal('w-treasury-2', '0.05')],
+        'ops-key': [],
+      };
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', ({ request }) =>
+          HttpResponse.json({ success: true, payload: withdrawalsByKey[apiKeyOf(request)!] })
+        ),
+        http.get('https://api.bitso.com/api/v3/fundings', () => HttpResponse.json({ success: true, payload: [] })),
+        http.get('https://api.bitso.com/api/v3/balance', ({ request }) =>
+          HttpResponse.json({
+            success: true,
+            payload: {
+              balances: apiKeyOf(request) === 'treasury-key'
+                ? [{ currency: 'mxn', total: '0.50', locked: '0.00', available: '0.50' }]
+                : [{ currency: 'mxn', total: '1500.50', locked: '500.00', available: '1000.50' }],
+            },
+          })
+        )
+      );
+      mcpHelper = new McpTestHelper(createTestServer(accountsConfig).server);
+    });
+
+    it('should list the configured accounts', async () => {
+      const result = await mcpHelper.callTool('list_accounts');
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.default_account).toBe('default');
+      expect(body.accounts).toEqual([
+        { name: 'default', default: true, has_credentials: true, write_operations: false },
+        { name: 'treasury', default: false, has_credentials: true, write_operations: false },
+        { name: 'ops', default: false, has_credentials: true, write_operations: false },
+      ]);
+    });
+
+    it('should route a tool call to the named account', async () => {
+      const result = await mcpHelper.callTool('list_withdrawals', { account: 'Treasury' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.withdrawals.map((w: Withdrawal) => w.wid)).toEqual(['w-treasury-1', 'w-treasury-2']);
+    });
+
+    it('should refuse unknown accounts with a hint', async () => {
+      const result = await mcpHelper.callTool('list_withdrawals', { account: 'tresury' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Did you mean: treasury?');
+      expect(result.content[0].text).toContain('list_accounts');
+    });
+
+    it('should sum balances across every account', async () => {
+      const result = await mcpHelper.callTool('get_balances', { account: 'all' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.account).toBe('all');
+      expect(body.balances).toEqual([{ currency: 'mxn', total: '3001.50', locked: '1000.00', available: '2001.50' }]);
+      expect(body.accounts.map((entry: { account: string }) => entry.account)).toEqual(['default', 'treasury', 'ops']);
+      expect(body.accounts[1].balances[0].total).toBe('0.50');
+    });
+
+    it('should summarize transactions across every account', async () => {
+      const result = await mcpHelper.callTool('summarize_transactions', { account: 'all', type: 'withdrawals' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.withdrawals).toMatchObject({ count: 3, totals: { mxn: '300.35' } });
+      expect(body.accounts).toEqual([
+        { account: 'default', withdrawals: { count: 1, totals: { mxn: '100.10' }, pages_fetched: 1, truncated: false } },
+        { account: 'treasury', withdrawals: { count: 2, totals: { mxn: '200.25' }, pages_fetched: 1, truncated: false } },
+        { account: 'ops', withdrawals: { count: 0, totals: {}, pages_fetched: 1, truncated: false } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { Withdrawal } from '../../src/types.js';
+import { FileCacheStore, MemoryCacheStore, resolveTtl } from '../../src/utils/cache.js';
+
+const withdrawal: Withdrawal = {
+  wid: 'wid-cached',
+  status: 'pending',
+  created_at: '2026-01-10T12:00:00.000Z',
+  currency: 'mxn',
+  method: 'sp',
+  amount: '1500.00',
+  details: {},
+};
+
+describe('cache', () => {
+  describe('MemoryCacheStore', () => {
+    it('should evict the least recently used entry beyond max entries', () => {
+      const cache = new MemoryCacheStore({ maxEntries: 2, maxBytes: 1024 });
+
+      cache.set('a', 1, 60);
+      cache.set('b', 2, 60);
+      expect(cache.get('a')).toBe(1);
+      cache.set('c', 3, 60);
+
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('a')).toBe(1);
+      expect(cache.get('c')).toBe(3);
+      expect(cache.stats()).toMatchObject({ entries: 2, hits: 3, misses: 1, evictions: 1 });
+    });
+
+    it('should stay within max bytes and skip entries too large to fit', () => {
+      const cache = new MemoryCacheStore({ maxEntries: 100, maxBytes: 20 });
+
+      cache.set('a', 'x'.repeat(9), 60);
+      cache.set('b', 'y'.repeat(9), 60);
+      cache.set('huge', 'z'.repeat(50), 60);
+
+      expect(cache.stats()).toMatchObject({ entries: 1, bytes: 11, evictions: 1 });
+      expect(cache.get('b')).toBe('y'.repeat(9));
+      expect(cache.get('huge')).toBeUndefined();
+    });
+
+    it('should expire entries and invalidate by prefix', () => {
+      let now = 0;
+      const cache = new MemoryCacheStore({ maxEntries: 100, maxBytes: 1024, now: () => now });
+      cache.set('/api/v3/withdrawals/a', 1, 10);
+      cache.set('/api/v3/withdrawals/b', 2, 60);
+      cache.set('/api/v3/balance', 3, 60);
+
+      now = 11_000;
+      expect(cache.get('/api/v3/withdrawals/a')).toBeUndefined();
+      expect(cache.stats().expirations).toBe(1);
+
+      expect(cache.invalidate('/api/v3/withdrawals')).toBe(1);
+      expect(cache.entries().map(entry => entry.endpoint)).toEqual(['balance']);
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bitso-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist entries across instances, dropping expired ones', () => {
+      const file = path.join(dir, 'cache.json');
+      let now = 0;
+      const cache = new FileCacheStore(file, { maxEntries: 100, maxBytes: 1024, now: () => now });
+      cache.set('short', 'soon gone', 10);
+      cache.set('long', { kept: true }, 3600);
+      cache.flush();
+
+      now = 60_000;
+      const reloaded = new FileCacheStore(file, { maxEntries: 100, maxBytes: 1024, now: () => now });
+
+      expect(reloaded.get('long')).toEqual({ kept: true });
+      expect(reloaded.get('short')).toBeUndefined();
+      expect(reloaded.stats().entries).toBe(1);
+    });
+
+    it('should batch writes into one owner-only file write', async () => {
+      const file = path.join(dir, 'cache.json');
+      const cache = new FileCacheStore(file, { maxEntries: 100, maxBytes: 1024 }, 20);
+
+      cache.set('a', 1, 60);
+      cache.set('b', 2, 60);
+      cache.get('a');
+      expect(fs.existsSync(file)).toBe(false);
+
+      await vi.waitFor(() => expect(fs.existsSync(file)).toBe(true));
+      expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toHaveLength(2);
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    });
+
+    it('should move an unreadable file aside and start empty', () => {
+      const file = path.join(dir, 'cache.json');
+
+      for (const contents of ['{not json', '{"entries":[]}', '[["key",null]]']) {
+        fs.writeFileSync(file, contents);
+        const cache = new FileCacheStore(file, { maxEntries: 100, maxBytes: 1024 });
+
+        expect(cache.stats().entries).toBe(0);
+        expect(fs.existsSync(file)).toBe(false);
+      }
+      expect(fs.readdirSync(dir).filter(name => name.startsWith('cache.json.corrupt-')).length).toBeGreaterThan(0);
+    });
+
+    it('should evict down to smaller bounds after loading', () => {
+      const file = path.join(dir, 'cache.json');
+      const cache = new FileCacheStore(file, { maxEntries: 100, maxBytes: 1024 });
+      ['a', 'b', 'c'].forEach(key => cache.set(key, key, 60));
+      cache.flush();
+
+      const reloaded = new FileCacheStore(file, { maxEntries: 2, maxBytes: 1024 });
+
+      expect(reloaded.stats()).toMatchObject({ entries: 2, evictions: 1 });
+      expect(reloaded.get('a')).toBeUndefined();
+      expect(reloaded.get('c')).toBe('c');
+    });
+  });
+
+  describe('resolveTtl', () => {
+    const policy = { byEndpoint: { balance: 30 }, byStatus: { pending: 10, complete: 86400 } };
+
+    it('should use status TTLs for single transactions and the shortest one for lists', () => {
+      expect(resolveTtl(policy, '/api/v3/withdrawals/a', withdrawal, 300)).toBe(10);
+      expect(resolveTtl(policy, '/api/v3/withdrawals/a', { ...withdrawal, status: 'complete' }, 300)).toBe(86400);
+      expect(resolveTtl(policy, '/api/v3/withdrawals', {
+        success: true,
+        payload: [{ ...withdrawal, status: 'complete' }, withdrawal],
+      }, 300)).toBe(10);
+      expect(resolveTtl(policy, '/api/v3/withdrawals', { success: true, payload: [{ ...withdrawal, status: 'complete' }] }, 300)).toBe(300);
+    });
+
+    it('should apply endpoint overrides to responses without statuses', () => {
+      expect(resolveTtl(policy, '/api/v3/balance', [{ currency: 'mxn' }], 300)).toBe(30);
+      expect(resolveTtl(policy, '/api/v3/ledger', [], 300)).toBe(300);
+    });
+  });
+
+  describe('cache_control tool', () => {
+    let mcpHelper: McpTestHelper;
+    let requests: number;
+
+    const callCacheControl = async (params: Record<string, unknown>) =>
+      JSON.parse((await mcpHelper.callTool('cache_control', params)).content[0].text);
+
+    beforeEach(() => {
+      requests = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals/:wid', ({ params }) => {
+          requests++;
+          return HttpResponse.json({
+            success: true,
+            payload: { ...withdrawal, wid: params.wid, status: params.wid === 'wid-done' ? 'complete' : 'pending' },
+          });
+        })
+      );
+      mcpHelper = new McpTestHelper(createTestServer().server);
+    });
+
+    it('should cache pending transactions briefly and final ones for long', async () => {
+      await mcpHelper.callTool('get_withdrawal', { wid: 'wid-cached' });
+      await mcpHelper.callTool('get_withdrawal', { wid: 'wid-done' });
+
+      const listed = await callCacheControl({ action: 'list', prefix: 'withdrawals' });
+      const ttlOf = (key: string) =>
+        (Date.parse(listed.entries.find((entry: { key: string }) => entry.key === key).expires_at) - Date.now()) / 1000;
+
+      expect(listed.count).toBe(2);
+      expect(ttlOf('/api/v3/withdrawals/wid-cached')).toBeLessThanOrEqual(10);
+      expect(ttlOf('/api/v3/withdrawals/wid-done')).toBeGreaterThan(86000);
+    });
+
+    it('should report hits and misses and invalidate entries', async () => {
+      await mcpHelper.callTool('get_withdrawal', { wid: 'wid-done' });
+      await mcpHelper.callTool('get_withdrawal', { wid: 'wid-done' });
+      expect(requests).toBe(1);
+
+      const { stats } = await callCacheControl({ action: 'stats' });
+      expect(stats).toMatchObject({ entries: 1, hits: 1, misses: 1, hit_rate: 0.5 });
+
+      const invalidated = await callCacheControl({ action: 'invalidate', prefix: '/api/v3/withdrawals/wid-done' });
+      expect(invalidated.removed).toBe(1);
+
+      await mcpHelper.callTool('get_withdrawal', { wid: 'wid-done' });
+      expect(requests).toBe(2);
+    });
+
+    it('should not invalidate everything without all: true', async () => {
+      const result = await mcpHelper.callTool('cache_control', { action: 'invalidate' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('provide either prefix or all: true');
+    });
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import { delay, http, HttpResponse } from 'msw';
 import { BitsoApiClient } from '../../src/client.js';
 import { Config } from '../../src/config.js';
+import { server } from '../mocks/server.js';
 
 describe('BitsoApiClient', () => {
   let client: BitsoApiClient;
@@ -11,8 +14,36 @@ describe('BitsoApiClient', () => {
       apiKey: 'test-api-key',
       apiSecret: 'test-api-secret',
       apiEndpoint: 'https://api.bitso.com',
+      accounts: {},
       timeout: 10000,
       cacheTtlSeconds: 300,
+      publicCacheTtlSeconds: 5,
+      catalogCacheTtlSeconds: 3600,
+      cacheBackend: 'memory',
+      cacheMaxEntries: 1000,
+      cacheMaxBytes: 10 * 1024 * 1024,
+      cacheEndpointTtlSeconds: {},
+      cacheStatusTtlSeconds: { pending: 10, processing: 10, complete: 86400, failed: 86400, cancelled: 86400 },
+      retryMaxAttempts: 3,
+      retryBaseDelayMs: 1,
+      maxConcurrentRequests: 5,
+      privateRateLimitPerMinute: 300,
+      publicRateLimitPerMinute: 60,
+      enableWriteOperations: false,
+      confirmationTtlSeconds: 300,
+      withdrawalAllowlist: {},
+      withdrawalMaxAmounts: {},
+      stuckThresholdMinutes: { sp: 30, btc: 120 },
+      stuckDefaultThresholdMinutes: 60,
+      watchPollIntervalSeconds: 30,
+      watchTtlMinutes: 60,
+      httpMaxSessions: 100,
+      httpSessionIdleTimeoutSeconds: 1800,
+      httpAuthTokens: {},
+      httpRequiredScopes: [],
+      httpAllowedOrigins: [],
+      defaultLimit: 25,
+      debug: false,
     };
 
     client = new BitsoApiClient(mockConfig);
@@ -25,4 +56,223 @@ describe('BitsoApiClient', () => {
       expect(result).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('request signing', () => {
+    const verifySignature = (request: Request) => {
+      const [, credentials] = (request.headers.get('authorization') ?? '').split(' ');
+      const [key, nonce, signature] = credentials.split(':');
+      const url = new URL(request.url);
+      const expected = crypto
+        .createHmac('sha256', 'test-api-secret')
+        .update(`${nonce}${request.method}${url.pathname}${url.search}`)
+        .digest('hex');
+      return key === 'test-api-key' && signature === expected;
+    };
+
+    it('should sign the query string of a GET', async () => {
+      let valid = false;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', ({ request }) => {
+          valid = verifySignature(request);
+          return HttpResponse.json({ success: true, payload: [] });
+        })
+      );
+
+      await client.getWithdrawals({ currency: 'mxn', limit: 5 });
+
+      expect(valid).toBe(true);
+    });
+
+    it('should sign DELETE requests and never retry them', async () => {
+      let calls = 0;
+      let valid = false;
+      server.use(
+        http.delete('https://api.bitso.com/api/v3/orders/:oids', ({ request }) => {
+          calls++;
+          valid = verifySignature(request);
+          return HttpResponse.json({ success: false }, { status: 503 });
+        })
+      );
+      client = new BitsoApiClient({ ...mockConfig, enableWriteOperations: true });
+
+      await expect(client.cancelOrders(['oid-1', 'oid-2'])).rejects.toThrow();
+      expect(calls).toBe(1);
+      expect(valid).toBe(true);
+    });
+
+    it('should refuse to cancel when write operations are disabled', async () => {
+      await expect(client.cancelOrders(['oid-1'])).rejects.toThrow(/write operations are disabled/);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a 503 and succeed on the next attempt', async () => {
+      const authHeaders: string[] = [];
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', ({ request }) => {
+          calls++;
+          authHeaders.push(request.headers.get('authorization') ?? '');
+          if (calls === 1) {
+            return HttpResponse.json({ success: false }, { status: 503 });
+          }
+          return HttpResponse.json({ success: true, payload: [] });
+        })
+      );
+
+      const result = await client.getWithdrawals({ limit: 5 });
+
+      expect(result.success).toBe(true);
+      expect(calls).toBe(2);
+      // Each attempt must be signed with a fresh nonce
+      expect(authHeaders[0]).not.toBe(authHeaders[1]);
+    });
+
+    it('should not retry a 401', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', () => {
+          calls++;
+          return HttpResponse.json({ success: false }, { status: 401 });
+        })
+      );
+
+      await expect(client.getWithdrawals()).rejects.toThrow();
+      expect(calls).toBe(1);
+    });
+
+    it('should honor Retry-After on a 429', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/fundings', () => {
+          calls++;
+          if (calls === 1) {
+            return HttpResponse.json({ success: false }, { status: 429, headers: { 'Retry-After': '0' } });
+          }
+          return HttpResponse.json({ success: true, payload: [] });
+        })
+      );
+
+      const result = await client.getFundings();
+
+      expect(result.success).toBe(true);
+      expect(calls).toBe(2);
+    });
+
+    it('should fail fast when Retry-After exceeds the backoff cap', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/fundings', () => {
+          calls++;
+          return HttpResponse.json({ success: false }, { status: 429, headers: { 'Retry-After': '600' } });
+        })
+      );
+
+      await expect(client.getFundings()).rejects.toMatchObject({ retryAfterMs: 600_000 });
+      expect(calls).toBe(1);
+    });
+
+    it('should give up after the configured number of attempts', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals/:wid', () => {
+          calls++;
+          return HttpResponse.json({ success: false }, { status: 500 });
+        })
+      );
+
+      await expect(client.getWithdrawal('wid-1')).rejects.toThrow();
+      expect(calls).toBe(mockConfig.retryMaxAttempts);
+    });
+  });
+
+  describe('request coalescing and limits', () => {
+    it('should send one request for identical concurrent calls', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', async () => {
+          calls++;
+          await delay(20);
+          return HttpResponse.json({ success: true, payload: [{ wid: 'wid-1', status: 'pending' }] });
+        })
+      );
+
+      const results = await Promise.all(Array.from({ length: 5 }, () => client.getWithdrawals({ limit: 5 })));
+
+      expect(calls).toBe(1);
+      results.forEach(result => expect(result).toEqual(results[0]));
+    });
+
+    it('should not join an in-flight request for a fresh read', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', async () => {
+          calls++;
+          await delay(20);
+          return HttpResponse.json({ success: true, payload: [] });
+        })
+      );
+
+      await Promise.all([
+        client.getWithdrawals({ origin_id: 'payout-1' }),
+        client.getWithdrawals({ origin_id: 'payout-1' }, { fresh: true }),
+        client.getWithdrawals({ origin_id: 'payout-1' }),
+      ]);
+
+      expect(calls).toBe(2);
+    });
+
+    it('should not coalesce calls with different parameters', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', () => {
+          calls++;
+          return HttpResponse.json({ success: true, payload: [] });
+        })
+      );
+
+      await Promise.all([client.getWithdrawals({ limit: 5 }), client.getWithdrawals({ limit: 10 })]);
+
+      expect(calls).toBe(2);
+    });
+
+    it('should share a failure and send a new request on the next call', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/balance', async () => {
+          calls++;
+          await delay(20);
+          return calls === 1
+            ? HttpResponse.json({ success: false }, { status: 401 })
+            : HttpResponse.json({ success: true, payload: { balances: [] } });
+        })
+      );
+
+      const results = await Promise.allSettled([client.getBalances(), client.getBalances(), client.getBalances()]);
+      expect(results.every(result => result.status === 'rejected')).toBe(true);
+      expect(calls).toBe(1);
+
+      await expect(client.getBalances()).resolves.toEqual([]);
+      expect(calls).toBe(2);
+    });
+
+    it('should keep at most the configured number of requests outstanding', async () => {
+      let active = 0;
+      let maxActive = 0;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals/:wid', async ({ params }) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await delay(20);
+          active--;
+          return HttpResponse.json({ success: true, payload: { wid: params.wid, status: 'complete' } });
+        })
+      );
+      client = new BitsoApiClient({ ...mockConfig, maxConcurrentRequests: 2 });
+
+      await Promise.all(['wid-1', 'wid-2', 'wid-3', 'wid-4', 'wid-5'].map(wid => client.getWithdrawal(wid)));
+
+      expect(maxActive).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { BitsoApiClient } from '../../src/client.js';
+import { Withdrawal } from '../../src/types.js';
+
+const ADDRESS = 'bc1qallowlistedaddress';
+
+describe('create_crypto_withdrawal tool', () => {
+  let mcpHelper: McpTestHelper;
+  let client: BitsoApiClient;
+  let created: Withdrawal[];
+  let posts: Array<Record<string, string>>;
+
+  beforeEach(() => {
+    const testServer = createTestServer({
+      enableWriteOperations: true,
+      withdrawalAllowlist: { btc: [ADDRESS], xrp: ['rSharedExchangeWallet?dt=111'] },
+      withdrawalMaxAmounts: { btc: '0.05', xrp: '100' }
+    });
+    mcpHelper = new McpTestHelper(testServer.server);
+    client = testServer.client;
+    created = [];
+    posts = [];
+
+    server.use(
+      http.get('https://api.bitso.com/api/v3/withdrawals', ({ request }) => {
+        const originId = new URL(request.url).searchParams.get('origin_id');
+        return HttpResponse.json({ success: true, payload: created.filter(w => w.origin_id === originId) });
+      }),
+      http.post('https://api.bitso.com/api/v3/withdrawal', async ({ request }) => {
+        const body = await request.json() as Record<string, string>;
+        posts.push(body);
+        const withdrawal: Withdrawal = {
+          wid: `wid-${posts.length}`,
+          status: 'pending',
+          created_at: '2025-01-15T12:00:00+00:00',
+          currency: body.currency,
+          method: body.network,
+          amount: body.amount,
+          origin_id: body.origin_id,
+          details: { address: body.address }
+        };
+        created.push(withdrawal);
+        return HttpResponse.json({ success: true, payload: withdrawal });
+      })
+    );
+  });
+
+  const withdrawal = { currency: 'BTC', network: 'btc', address: ADDRESS, amount: '0.01' };
+
+  it('should refuse when write operations are disabled', async () => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+
+    const result = await mcpHelper.callTool('create_crypto_withdrawal', withdrawal);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('BITSO_ENABLE_WRITE_OPERATIONS');
+  });
+
+  it('should refuse addresses outside the allowlist', async () => {
+    const result = await mcpHelper.callTool('create_crypto_withdrawal', { ...withdrawal, address: 'bc1qsomeoneelse' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not in the btc withdrawal allowlist');
+  });
+
+  it('should refuse amounts above the per-currency maximum', async () => {
+    const result = await mcpHelper.callTool('create_crypto_withdrawal', { ...withdrawal, amount: '0.06' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('exceeds the maximum of 0.05 btc');
+  });
+
+  it('should send only after confirmation, with a generated origin_id', async () => {
+    const preview = JSON.parse((await mcpHelper.callTool('create_crypto_withdrawal', withdrawal)).content[0].text);
+
+    expect(preview.confirmation_required).toBe(true);
+    expect(preview.withdrawal.origin_id).toMatch(/^mcp-[0-9a-f]{24}$/);
+    expect(posts).toEqual([]);
+
+    const result = await mcpHelper.callTool('create_crypto_withdrawal', { ...withdrawal, confirm_token: preview.confirm_token });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.withdrawal).toMatchObject({ wid: 'wid-1', status: 'pending', origin_id: preview.withdrawal.origin_id });
+    expect(posts).toEqual([{ currency: 'btc', network: 'btc', address: ADDRESS, amount: '0.01', origin_id: preview.withdrawal.origin_id }]);
+  });
+
+  it('should not send twice for the same origin_id', async () => {
+    const request = { ...withdrawal, origin_id: 'payout-42' };
+    const preview = JSON.parse((await mcpHelper.callTool('create_crypto_withdrawal', request)).content[0].text);
+    await mcpHelper.callTool('create_crypto_withdrawal', { ...request, confirm_token: preview.confirm_token });
+
+    const result = await mcpHelper.callTool('create_crypto_withdrawal', request);
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.already_exists).toBe(true);
+    expect(body.withdrawal.wid).toBe('wid-1');
+    expect(posts).toHaveLength(1);
+  });
+
+  it('should find an earlier withdrawal for the origin_id even when a lookup was cached', async () => {
+    await client.getWithdrawals({ origin_id: 'payout-7' });
+    created.push({
+      wid: 'wid-earlier', status: 'pending', created_at: '2025-01-15T12:00:00+00:00',
+      currency: 'btc', method: 'btc', amount: '0.01', origin_id: 'payout-7', details: {}
+    });
+
+    const result = await mcpHelper.callTool('create_crypto_withdrawal', { ...withdrawal, origin_id: 'payout-7' });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.already_exists).toBe(true);
+    expect(body.withdrawal.wid).toBe('wid-earlier');
+  });
+
+  describe('tag networks', () => {
+    const xrpWithdrawal = { currency: 'xrp', network: 'xrp', address: 'rSharedExchangeWallet', amount: '10' };
+
+    it('should require the destination tag', async () => {
+      const result = await mcpHelper.callTool('create_crypto_withdrawal', xrpWithdrawal);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('need a destination tag');
+    });
+
+    it('should refuse a tag other than the allowlisted one', async () => {
+      const result = await mcpHelper.callTool('create_crypto_withdrawal', { ...xrpWithdrawal, tag: '222' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('rSharedExchangeWallet with destination tag 222 is not in the xrp withdrawal allowlist');
+    });
+
+    it('should accept the allowlisted address and tag', async () => {
+      const preview = JSON.parse((await mcpHelper.callTool('create_crypto_withdrawal', { ...xrpWithdrawal, tag: '111' })).content[0].text);
+
+      expect(preview.confirmation_required).toBe(true);
+    });
+  });
+});
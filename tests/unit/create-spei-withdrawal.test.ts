@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { validateClabe } from '../../src/utils/clabe.js';
+
+const CLABE = '002010077777777771';
+
+describe('validateClabe', () => {
+  it('should accept a valid CLABE and resolve its bank', () => {
+    expect(validateClabe('002 010 07777777777 1')).toEqual({ clabe: CLABE, bank_code: '002', bank: 'BANAMEX' });
+  });
+
+  it('should reject a wrong check digit', () => {
+    expect(() => validateClabe('002010077777777772')).toThrow('check digit is 2 but should be 1');
+  });
+
+  it('should reject unknown bank codes and wrong lengths', () => {
+    expect(() => validateClabe('999010077777777774')).toThrow('bank code 999 is not a known SPEI participant');
+    expect(() => validateClabe('00201007777777777')).toThrow('exactly 18 digits');
+  });
+});
+
+describe('create_spei_withdrawal tool', () => {
+  let mcpHelper: McpTestHelper;
+  let posts: Array<Record<string, string>>;
+
+  const withdrawal = {
+    clabe: CLABE,
+    beneficiary_given_names: 'Ana Sofía',
+    beneficiary_family_names: 'García López',
+    amount: '1500.50',
+    notes_ref: 'Pago factura 123',
+    numeric_ref: '1234567'
+  };
+
+  beforeEach(() => {
+    mcpHelper = new McpTestHelper(createTestServer({
+      enableWriteOperations: true,
+      withdrawalAllowlist: { mxn: [CLABE] },
+      withdrawalMaxAmounts: { mxn: '50000' }
+    }).server);
+    posts = [];
+
+    server.use(
+      http.post('https://api.bitso.com/api/v3/spei_withdrawal', async ({ request }) => {
+        const body = await request.json() as Record<string, string>;
+        posts.push(body);
+        return HttpResponse.json({
+          success: true,
+          payload: {
+            wid: 'wid-spei-1',
+            status: 'pending',
+            created_at: '2025-01-15T12:00:00+00:00',
+            currency: 'mxn',
+            method: 'sp',
+            amount: body.amount,
+            origin_id: body.origin_id,
+            details: { clabe: body.clabe }
+          }
+        });
+      })
+    );
+  });
+
+  it('should reject an invalid CLABE before calling Bitso', async () => {
+    const result = await mcpHelper.callTool('create_spei_withdrawal', { ...withdrawal, clabe: '002010077777777779' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Validation error: clabe');
+    expect(posts).toEqual([]);
+  });
+
+  it('should refuse amounts above the MXN maximum', async () => {
+    const result = await mcpHelper.callTool('create_spei_withdrawal', { ...withdrawal, amount: '50000.01' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('exceeds the maximum of 50000 mxn');
+  });
+
+  it('should return the created withdrawal after confirmation', async () => {
+    const preview = JSON.parse((await mcpHelper.callTool('create_spei_withdrawal', withdrawal)).content[0].text);
+
+    expect(preview.bank).toBe('BANAMEX');
+    expect(posts).toEqual([]);
+
+    const result = await mcpHelper.callTool('create_spei_withdrawal', { ...withdrawal, confirm_token: preview.confirm_token });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.withdrawal).toMatchObject({ wid: 'wid-spei-1', status: 'pending', method: 'sp', amount: '1500.5' });
+    expect(posts).toEqual([{
+      clabe: CLABE,
+      amount: '1500.5',
+      notes_ref: 'Pago factura 123',
+      numeric_ref: '1234567',
+      recipient_given_names: 'Ana Sofía',
+      recipient_family_names: 'García López',
+      origin_id: preview.withdrawal.origin_id
+    }]);
+  });
+});
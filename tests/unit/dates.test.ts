@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { isInDateRange, parseDateInput } from '../../src/utils/dates.js';
+
+describe('Date utilities', () => {
+  const now = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+  describe('parseDateInput', () => {
+    it('should parse ISO-8601 dates and datetimes', () => {
+      expect(parseDateInput('2025-01-31T00:00:00Z').toISOString()).toBe('2025-01-31T00:00:00.000Z');
+      expect(parseDateInput('2025-01-31').toISOString()).toBe('2025-01-31T00:00:00.000Z');
+    });
+
+    it('should parse relative offsets', () => {
+      expect(parseDateInput('-24h', now).toISOString()).toBe('2025-01-14T12:00:00.000Z');
+      expect(parseDateInput('-30m', now).toISOString()).toBe('2025-01-15T11:30:00.000Z');
+      expect(parseDateInput('-2w', now).toISOString()).toBe('2025-01-01T12:00:00.000Z');
+      expect(parseDateInput('now', now).getTime()).toBe(now);
+    });
+
+    it('should reject unparseable input', () => {
+      expect(() => parseDateInput('yesterday-ish')).toThrow('Invalid date');
+    });
+  });
+
+  describe('isInDateRange', () => {
+    const range = { after: new Date('2025-01-01T00:00:00Z'), before: new Date('2025-01-02T00:00:00Z') };
+
+    it('should include the lower bound and exclude the upper bound', () => {
+      expect(isInDateRange('2025-01-01T00:00:00Z', range)).toBe(true);
+      expect(isInDateRange('2025-01-01T23:59:59Z', range)).toBe(true);
+      expect(isInDateRange('2025-01-02T00:00:00Z', range)).toBe(false);
+      expect(isInDateRange('2024-12-31T23:59:59Z', range)).toBe(false);
+    });
+  });
+});
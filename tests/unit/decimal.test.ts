@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal, formatAmount, getCurrencyPrecision, PositiveDecimalSchema } from '../../src/utils/decimal.js';
+
+describe('Decimal', () => {
+  describe('parsing and formatting', () => {
+    it('should round-trip Bitso amount strings', () => {
+      expect(Decimal.from('0.00000001').toString()).toBe('0.00000001');
+      expect(Decimal.from('-1013.540958479115').toString()).toBe('-1013.540958479115');
+      expect(Decimal.from('100.00').toString()).toBe('100');
+      expect(Decimal.from('.5').toString()).toBe('0.5');
+    });
+
+    it('should parse numbers, including exponent notation', () => {
+      expect(Decimal.from(1e-8).toString()).toBe('0.00000001');
+      expect(Decimal.from(1.5e21).toString()).toBe('1500000000000000000000');
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => Decimal.from('abc')).toThrow('Invalid decimal value');
+      expect(() => Decimal.from('')).toThrow('Invalid decimal value');
+      expect(() => Decimal.from(NaN)).toThrow('Invalid decimal value');
+    });
+
+    it('should reject huge exponents without computing them', () => {
+      const started = Date.now();
+
+      expect(() => Decimal.from('1e1000000000')).toThrow('exponent out of range');
+      expect(() => Decimal.from('1e-1000000000')).toThrow('exponent out of range');
+      expect(PositiveDecimalSchema.safeParse('1e1000000000').success).toBe(false);
+      expect(PositiveDecimalSchema.safeParse('1e2').success).toBe(false);
+      expect(PositiveDecimalSchema.parse(0.5)).toBe('0.5');
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add without floating-point drift', () => {
+      expect(Decimal.from('0.1').plus('0.2').toString()).toBe('0.3');
+      expect(Decimal.sum(Array(10).fill('0.00000001')).toString()).toBe('0.0000001');
+    });
+
+    it('should keep precision on large values', () => {
+      const large = Decimal.from('92233720368547758.07');
+      expect(large.plus('0.01').toString()).toBe('92233720368547758.08');
+      expect(large.times('1000').toString()).toBe('92233720368547758070');
+    });
+
+    it('should multiply tiny amounts by large prices exactly', () => {
+      expect(Decimal.from('0.00000001').times('1750000.55').toString()).toBe('0.0175000055');
+    });
+
+    it('should divide with rounding at the requested scale', () => {
+      expect(Decimal.from(1).dividedBy(3, 8).toString()).toBe('0.33333333');
+      expect(Decimal.from(2).dividedBy(3, 8).toString()).toBe('0.66666667');
+      expect(Decimal.from('-1').dividedBy('8', 2).toString()).toBe('-0.13');
+      expect(() => Decimal.from(1).dividedBy(0)).toThrow('Division by zero');
+    });
+
+    it('should compare values of different scales', () => {
+      expect(Decimal.from('1.50').eq('1.5')).toBe(true);
+      expect(Decimal.from('0.00000001').gt(0)).toBe(true);
+      expect(Decimal.from('-0.5').lt('0.1')).toBe(true);
+      expect(Decimal.from('0.00000000').isZero()).toBe(true);
+    });
+  });
+
+  describe('rounding', () => {
+    it('should round half away from zero', () => {
+      expect(Decimal.from('2.345').toFixed(2)).toBe('2.35');
+      expect(Decimal.from('-2.345').toFixed(2)).toBe('-2.35');
+      expect(Decimal.from('2.344999').toFixed(2)).toBe('2.34');
+      expect(Decimal.from('0.004').toFixed(2)).toBe('0.00');
+    });
+
+    it('should pad to the requested scale', () => {
+      expect(Decimal.from('5').toFixed(8)).toBe('5.00000000');
+      expect(Decimal.from('0.000000015').toFixed(8)).toBe('0.00000002');
+    });
+  });
+
+  describe('currency precision', () => {
+    it('should format amounts with per-currency precision', () => {
+      expect(getCurrencyPrecision('MXN')).toBe(2);
+      expect(getCurrencyPrecision('btc')).toBe(8);
+      expect(getCurrencyPrecision('unknown')).toBe(8);
+      expect(formatAmount('1500.505', 'mxn')).toBe('1500.51');
+      expect(formatAmount('0.123456789', 'btc')).toBe('0.12345679');
+    });
+  });
+});
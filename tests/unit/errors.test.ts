@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { BitsoApiClient } from '../../src/client.js';
+import {
+  BitsoAuthError,
+  BitsoInvalidNonceError,
+  BitsoNotFoundError,
+  BitsoRateLimitError,
+  BitsoServerError,
+  BitsoValidationError,
+  createBitsoError,
+} from '../../src/errors.js';
+import { createTestConfig } from '../helpers/test-config.js';
+import { server } from '../mocks/server.js';
+
+describe('Bitso errors', () => {
+  describe('createBitsoError', () => {
+    const details = { method: 'GET', path: '/api/v3/withdrawals' };
+
+    it('should map HTTP statuses to typed errors', () => {
+      expect(createBitsoError(undefined, { ...details, status: 401 })).toBeInstanceOf(BitsoAuthError);
+      expect(createBitsoError(undefined, { ...details, status: 404 })).toBeInstanceOf(BitsoNotFoundError);
+      expect(createBitsoError(undefined, { ...details, status: 429 })).toBeInstanceOf(BitsoRateLimitError);
+      expect(createBitsoError(undefined, { ...details, status: 400 })).toBeInstanceOf(BitsoValidationError);
+      expect(createBitsoError(undefined, { ...details, status: 502 })).toBeInstanceOf(BitsoServerError);
+    });
+
+    it('should detect nonce errors from the Bitso message', () => {
+      const error = createBitsoError(
+        { success: false, error: { code: '0201', message: 'Invalid Nonce or Invalid Credentials' } },
+        { ...details, status: 401 }
+      );
+
+      expect(error).toBeInstanceOf(BitsoInvalidNonceError);
+      expect(error.code).toBe('0201');
+    });
+
+    it('should include code, status and path in the message', () => {
+      const error = createBitsoError(
+        { success: false, error: { code: 301, message: 'Unknown OrderBook' } },
+        { ...details, status: 400 }
+      );
+
+      expect(error.message).toBe('Bitso API error 301 (HTTP 400) on GET /api/v3/withdrawals: Unknown OrderBook');
+      expect(error.status).toBe(400);
+      expect(error.path).toBe('/api/v3/withdrawals');
+    });
+  });
+
+  describe('BitsoApiClient error parsing', () => {
+    let client: BitsoApiClient;
+
+    beforeEach(() => {
+      client = new BitsoApiClient(createTestConfig());
+    });
+
+    it('should parse the Bitso error payload of a failed request', async () => {
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals/:wid', () =>
+          HttpResponse.json({ success: false, error: { code: '0405', message: 'Withdrawal not found' } }, { status: 404 })
+        )
+      );
+
+      const error = await client.getWithdrawal('missing').catch(e => e);
+
+      expect(error).toBeInstanceOf(BitsoNotFoundError);
+      expect(error.code).toBe('0405');
+      expect(error.path).toBe('/api/v3/withdrawals/missing');
+    });
+
+    it('should throw on a success: false payload returned with HTTP 200', async () => {
+      server.use(
+        http.get('https://api.bitso.com/api/v3/fundings/:fid', () =>
+          HttpResponse.json({ success: false, error: { code: '0102', message: 'Invalid parameter' } })
+        )
+      );
+
+      await expect(client.getFunding('fid-1')).rejects.toThrow('Invalid parameter');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { Funding, Withdrawal } from '../../src/types.js';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+const withdrawals: Withdrawal[] = [
+  { wid: 'wid-spei-late', status: 'pending', created_at: minutesAgo(45), currency: 'mxn', method: 'sp', amount: '1500.00', origin_id: 'payout-1', details: { clave_rastreo: 'BITSO123' } },
+  { wid: 'wid-spei-fresh', status: 'pending', created_at: minutesAgo(10), currency: 'mxn', method: 'sp', amount: '200.00', details: {} },
+  { wid: 'wid-btc-late', status: 'processing', created_at: minutesAgo(180), currency: 'btc', method: 'btc', amount: '0.01', details: { tx_hash: '0xabc' } },
+  { wid: 'wid-btc-done', status: 'complete', created_at: minutesAgo(600), currency: 'btc', method: 'btc', amount: '0.02', details: {} },
+];
+
+const fundings: Funding[] = [
+  { fid: 'fid-eth-late', status: 'pending', created_at: minutesAgo(90), currency: 'eth', method: 'eth', amount: '1.0', details: { tx_hash: '0xdef' } },
+  { fid: 'fid-spei-fresh', status: 'pending', created_at: minutesAgo(20), currency: 'mxn', method: 'sp', amount: '500.00', details: {} },
+];
+
+describe('find_stuck_transactions tool', () => {
+  let mcpHelper: McpTestHelper;
+
+  beforeEach(() => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+    server.use(
+      http.get('https://api.bitso.com/api/v3/withdrawals', ({ request }) => {
+        const url = new URL(request.url);
+        const currency = url.searchParams.get('currency');
+        const payload = url.searchParams.get('marker') ? [] : withdrawals.filter(w => !currency || w.currency === currency);
+        return HttpResponse.json({ success: true, payload });
+      }),
+      http.get('https://api.bitso.com/api/v3/fundings', ({ request }) => {
+        const payload = new URL(request.url).searchParams.get('marker') ? [] : fundings;
+        return HttpResponse.json({ success: true, payload });
+      })
+    );
+  });
+
+  it('should return in-flight transactions past their method threshold, oldest first', async () => {
+    const result = await mcpHelper.callTool('find_stuck_transactions', {});
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.transactions.map((t: { id: string }) => t.id)).toEqual(['wid-btc-late', 'fid-eth-late', 'wid-spei-late']);
+    expect(body.transactions[0]).toMatchObject({
+      type: 'withdrawal',
+      status: 'processing',
+      threshold_minutes: 120,
+      details: { tx_hash: '0xabc' }
+    });
+    // eth has no threshold of its own, so the 60 minute default applies
+    expect(body.transactions[1]).toMatchObject({ type: 'funding', threshold_minutes: 60 });
+    expect(body.transactions[2]).toMatchObject({ threshold_minutes: 30, origin_id: 'payout-1', details: { clave_rastreo: 'BITSO123' } });
+  });
+
+  it('should respect configured thresholds and filters', async () => {
+    mcpHelper = new McpTestHelper(createTestServer({ stuckThresholdMinutes: { sp: 5 } }).server);
+
+    const result = await mcpHelper.callTool('find_stuck_transactions', { type: 'withdrawals', currency: 'MXN' });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.transactions.map((t: { id: string }) => t.id)).toEqual(['wid-spei-late', 'wid-spei-fresh']);
+    expect(body.scan.fundings).toBeUndefined();
+  });
+
+  it('should report when nothing is stuck', async () => {
+    const result = await mcpHelper.callTool('find_stuck_transactions', { created_after: '-30m' });
+
+    expect(result.content[0].text).toMatch(/^No stuck transactions found since/);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { tagKindFor } from '../../src/utils/funding-destination.js';
+
+describe('get_funding_destination tool', () => {
+  let mcpHelper: McpTestHelper;
+
+  const parse = (text: string) => JSON.parse(text.slice(text.indexOf('{')));
+
+  beforeEach(() => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+  });
+
+  it('should return the deposit address for a currency on a network', async () => {
+    const result = await mcpHelper.callTool('get_funding_destination', { currency: 'USDC', network: 'Polygon' });
+    const body = parse(result.content[0].text);
+
+    expect(body).toMatchObject({
+      currency: 'usdc',
+      network: 'polygon',
+      destination: '0x5f0c7b1a9e2d4c3b8a6f1e0d9c8b7a6f5e4d3c2b',
+      tag_required: false,
+      warning: null
+    });
+    expect(result.content[0].text.startsWith('WARNING')).toBe(false);
+  });
+
+  it('should return the CLABE for MXN', async () => {
+    const body = parse((await mcpHelper.callTool('get_funding_destination', { currency: 'mxn' })).content[0].text);
+
+    expect(body).toMatchObject({ identifier_name: 'SPEI CLABE', destination: '646180115400000002', tag_required: false });
+  });
+
+  it('should split out an embedded destination tag and warn loudly', async () => {
+    const result = await mcpHelper.callTool('get_funding_destination', { currency: 'xrp' });
+    const text = result.content[0].text;
+    const body = parse(text);
+
+    expect(text.startsWith('WARNING - DESTINATION TAG REQUIRED')).toBe(true);
+    expect(body).toMatchObject({
+      destination: 'rLHzPsX6oXkzU2qL12kHCH8G8cnZv1rBJh',
+      tag_required: true,
+      tag_kind: 'destination tag',
+      tag: '4815162342'
+    });
+    expect(body.warning).toContain('MUST include the destination tag 4815162342');
+  });
+
+  it('should still require a tag when Bitso names the network differently', async () => {
+    server.use(
+      http.get('https://api.bitso.com/api/v3/funding_destination', () => HttpResponse.json({
+        success: true,
+        payload: { account_identifier_name: 'XRP address', account_identifier: 'rLHzPsX6oXkzU2qL12kHCH8G8cnZv1rBJh', network: 'ripple' }
+      }))
+    );
+
+    const body = parse((await mcpHelper.callTool('get_funding_destination', { currency: 'xrp' })).content[0].text);
+
+    expect(body).toMatchObject({ network: 'ripple', tag_required: true, tag_kind: 'destination tag', tag: null });
+    expect(body.warning).toContain('Bitso did not return one');
+  });
+
+  it('should not require a memo for BNB on BNB Smart Chain', async () => {
+    server.use(
+      http.get('https://api.bitso.com/api/v3/funding_destination', () => HttpResponse.json({
+        success: true,
+        payload: { account_identifier_name: 'BNB address', account_identifier: '0x5f0c7b1a9e2d4c3b8a6f1e0d9c8b7a6f5e4d3c2b', network: 'bsc' }
+      }))
+    );
+
+    const result = await mcpHelper.callTool('get_funding_destination', { currency: 'bnb', network: 'bsc' });
+    const body = parse(result.content[0].text);
+
+    expect(body).toMatchObject({ network: 'bsc', tag_required: false, tag_kind: null, warning: null });
+    expect(tagKindFor('bnb', 'bep20')).toBeUndefined();
+    expect(tagKindFor('bnb', 'bep2')).toBe('memo');
+    expect(tagKindFor('bnb', 'some-new-chain')).toBe('memo');
+  });
+
+  it('should surface Bitso errors for unsupported networks', async () => {
+    const result = await mcpHelper.callTool('get_funding_destination', { currency: 'usdc', network: 'solana' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown currency or network');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BitsoApiClient } from '../../src/client.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+
+describe('get_balances', () => {
+  let client: BitsoApiClient;
+  let mcpHelper: McpTestHelper;
+
+  beforeEach(() => {
+    const testServer = createTestServer();
+    client = testServer.client;
+    mcpHelper = new McpTestHelper(testServer.server);
+  });
+
+  it('should fetch balances from the client', async () => {
+    const balances = await client.getBalances();
+
+    expect(balances).toHaveLength(3);
+    expect(balances[0]).toMatchObject({ currency: 'mxn', available: '1000.50' });
+  });
+
+  it('should return all balances by default', async () => {
+    const result = await mcpHelper.callTool('get_balances');
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.count).toBe(3);
+    expect(body.balances[1]).toEqual({
+      currency: 'btc',
+      total: '0.12345678',
+      locked: '0.00000000',
+      available: '0.12345678'
+    });
+  });
+
+  it('should filter by currency and hide zero balances', async () => {
+    const result = await mcpHelper.callTool('get_balances', { currency: 'BTC, eth', hide_zero: true });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.count).toBe(1);
+    expect(body.balances[0].currency).toBe('btc');
+  });
+});
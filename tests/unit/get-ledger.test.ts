@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { flattenLedgerEntries } from '../../src/utils/ledger.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { ledgerFixture } from '../mocks/handlers.js';
+import { server } from '../mocks/server.js';
+
+describe('get_ledger', () => {
+  let mcpHelper: McpTestHelper;
+
+  beforeEach(() => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+  });
+
+  describe('flattenLedgerEntries', () => {
+    it('should emit one row per balance update with cross-reference IDs', () => {
+      const rows = flattenLedgerEntries(ledgerFixture.payload);
+
+      expect(rows).toHaveLength(4);
+      expect(rows[0]).toEqual({
+        eid: 'eid-3',
+        operation: 'withdrawal',
+        created_at: '2025-01-03T10:00:00.000+00:00',
+        currency: 'mxn',
+        amount: '-250.00',
+        wid: 'wid-1'
+      });
+      expect(rows[1]).toMatchObject({ eid: 'eid-2', currency: 'btc', tid: '51756', oid: 'oid-1' });
+      expect(rows[3]).toMatchObject({ eid: 'eid-1', fid: 'fid-1' });
+    });
+  });
+
+  it('should return flattened entries', async () => {
+    const result = await mcpHelper.callTool('get_ledger');
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.count).toBe(4);
+    expect(body.ledger_entry_count).toBe(3);
+    expect(body.entries).toHaveLength(4);
+  });
+
+  it('should use the operation subpath and pass sort order', async () => {
+    let requestUrl: URL | undefined;
+    server.use(
+      http.get('https://api.bitso.com/api/v3/ledger/withdrawals', ({ request }) => {
+        requestUrl = new URL(request.url);
+        return HttpResponse.json({ success: true, payload: [ledgerFixture.payload[0]] });
+      })
+    );
+
+    const result = await mcpHelper.callTool('get_ledger', { operation: 'withdrawals', sort: 'asc' });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(requestUrl?.searchParams.get('sort')).toBe('asc');
+    expect(body.entries[0].wid).toBe('wid-1');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AccountRegistry } from '../../src/accounts.js';
+import { BitsoApiClient } from '../../src/client.js';
+import { registerMarketTools } from '../../src/tools/market-tools.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestConfig } from '../helpers/test-config.js';
+import { server } from '../mocks/server.js';
+
+describe('Market data tools', () => {
+  let client: BitsoApiClient;
+  let mcpHelper: McpTestHelper;
+
+  beforeEach(() => {
+    // No credentials: public endpoints must still work
+    const { apiKey, apiSecret, ...config } = createTestConfig();
+    const accounts = AccountRegistry.fromConfig(config);
+    client = accounts.get();
+    const mcpServer = new McpServer({ name: 'market-test', version: '1.0.0-test' });
+    registerMarketTools(mcpServer, accounts);
+    mcpHelper = new McpTestHelper(mcpServer);
+  });
+
+  it('should call public endpoints without an Authorization header', async () => {
+    let authorization: string | null = 'unset';
+    server.use(
+      http.get('https://api.bitso.com/api/v3/ticker', ({ request }) => {
+        authorization = request.headers.get('authorization');
+        return HttpResponse.json({ success: true, payload: { book: 'btc_mxn', last: '1' } });
+      })
+    );
+
+    const ticker = await client.getTicker('btc_mxn');
+
+    expect(ticker.book).toBe('btc_mxn');
+    expect(authorization).toBeNull();
+  });
+
+  it('should refuse private endpoints without credentials', async () => {
+    await expect(client.getBalances()).rejects.toThrow('credentials are required');
+  });
+
+  it('should cache public data with the public TTL', async () => {
+    let calls = 0;
+    server.use(
+      http.get('https://api.bitso.com/api/v3/available_books', () => {
+        calls++;
+        return HttpResponse.json({ success: true, payload: [] });
+      })
+    );
+
+    await client.getAvailableBooks();
+    await client.getAvailableBooks();
+
+    expect(calls).toBe(1);
+  });
+
+  it('get_ticker should return a single book or all books', async () => {
+    const single = JSON.parse((await mcpHelper.callTool('get_ticker', { book: 'BTC_MXN' })).content[0].text);
+    const all = JSON.parse((await mcpHelper.callTool('get_ticker')).content[0].text);
+
+    expect(single.tickers[0].last).toBe('1750000.00');
+    expect(all.count).toBe(3);
+  });
+
+  it('get_ticker should surface unknown books as tool errors', async () => {
+    const result = await mcpHelper.callTool('get_ticker', { book: 'foo_bar' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown OrderBook');
+  });
+
+  it('get_order_book should apply the depth limit and aggregate flag', async () => {
+    let aggregate: string | null = null;
+    server.use(
+      http.get('https://api.bitso.com/api/v3/order_book', ({ request }) => {
+        // Returning nothing falls through to the default fixture handler
+        aggregate = new URL(request.url).searchParams.get('aggregate');
+      })
+    );
+
+    const result = await mcpHelper.callTool('get_order_book', { book: 'btc_mxn', depth: 2, aggregate: false });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(aggregate).toBe('false');
+    expect(body.asks).toHaveLength(2);
+    expect(body.total_asks).toBe(3);
+  });
+
+  it('get_recent_trades should list trades for a book', async () => {
+    const result = await mcpHelper.callTool('get_recent_trades', { book: 'btc_mxn' });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.count).toBe(2);
+    expect(body.trades[0].tid).toBe(1002);
+  });
+});
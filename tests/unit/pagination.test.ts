@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { BitsoApiClient } from '../../src/client.js';
+import { Withdrawal } from '../../src/types.js';
+import { createTestConfig } from '../helpers/test-config.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { server } from '../mocks/server.js';
+
+function makeWithdrawals(count: number): Withdrawal[] {
+  return Array.from({ length: count }, (_, i) => ({
+    wid: `wid-${i}`,
+    status: 'complete',
+    created_at: new Date(Date.UTC(2025, 0, 1) - i * 60000).toISOString(),
+    currency: 'mxn',
+    method: 'sp',
+    amount: '100.00',
+    details: {},
+  }));
+}
+
+// Serves the fixture newest first, honoring Bitso's marker/limit semantics
+function useWithdrawalPages(withdrawals: Withdrawal[], requests: URL[]) {
+  server.use(
+    http.get('https://api.bitso.com/api/v3/withdrawals', ({ request }) => {
+      const url = new URL(request.url);
+      requests.push(url);
+      const limit = Number(url.searchParams.get('limit') ?? 25);
+      const marker = url.searchParams.get('marker');
+      const start = marker ? withdrawals.findIndex(w => w.wid === marker) + 1 : 0;
+      return HttpResponse.json({ success: true, payload: withdrawals.slice(start, start + limit) });
+    })
+  );
+}
+
+describe('Pagination', () => {
+  let client: BitsoApiClient;
+  let requests: URL[];
+
+  beforeEach(() => {
+    client = new BitsoApiClient(createTestConfig());
+    requests = [];
+  });
+
+  describe('getAllWithdrawals', () => {
+    it('should follow markers until the list is exhausted', async () => {
+      useWithdrawalPages(makeWithdrawals(250), requests);
+
+      const result = await client.getAllWithdrawals({ currency: 'mxn' });
+
+      expect(result.items).toHaveLength(250);
+      expect(result.pagesFetched).toBe(3);
+      expect(result.truncated).toBe(false);
+      expect(requests[1].searchParams.get('marker')).toBe('wid-99');
+      expect(requests[2].searchParams.get('currency')).toBe('mxn');
+    });
+
+    it('should stop at the record cap and report truncation', async () => {
+      useWithdrawalPages(makeWithdrawals(250), requests);
+
+      const result = await client.getAllWithdrawals({}, { maxRecords: 150 });
+
+      expect(result.items).toHaveLength(150);
+      expect(result.pagesFetched).toBe(2);
+      expect(result.truncated).toBe(true);
+      expect(result.nextMarker).toBe('wid-149');
+      expect(requests[1].searchParams.get('limit')).toBe('50');
+    });
+
+    it('should stop after the page that crosses a boundary', async () => {
+      useWithdrawalPages(makeWithdrawals(250), requests);
+
+      const result = await client.getAllWithdrawals({}, { stopWhen: w => w.wid === 'wid-120' });
+
+      expect(result.pagesFetched).toBe(2);
+      expect(result.truncated).toBe(false);
+    });
+  });
+
+  describe('date ranges', () => {
+    it('should only return records inside the range and stop past its lower bound', async () => {
+      // One withdrawal per minute going back from 2025-01-01T00:00Z
+      useWithdrawalPages(makeWithdrawals(500), requests);
+
+      const result = await client.getAllWithdrawals({}, {
+        range: {
+          after: new Date('2024-12-31T22:00:00Z'),
+          before: new Date('2024-12-31T23:00:00Z'),
+        },
+      });
+
+      expect(result.items).toHaveLength(60);
+      expect(result.items[0].wid).toBe('wid-61');
+      expect(result.items[59].wid).toBe('wid-120');
+      expect(result.pagesFetched).toBe(2);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should apply max_records to matching records only', async () => {
+      useWithdrawalPages(makeWithdrawals(500), requests);
+
+      const result = await client.getAllWithdrawals({}, {
+        maxRecords: 10,
+        range: { before: new Date('2024-12-31T22:00:00Z') },
+      });
+
+      expect(result.items).toHaveLength(10);
+      expect(result.items[0].wid).toBe('wid-121');
+      expect(result.truncated).toBe(true);
+      expect(result.nextMarker).toBe('wid-130');
+    });
+  });
+
+  describe('list_withdrawals with fetch_all', () => {
+    it('should report pages fetched and truncation', async () => {
+      useWithdrawalPages(makeWithdrawals(120), requests);
+      const mcpHelper = new McpTestHelper(createTestServer().server);
+
+      const result = await mcpHelper.callTool('list_withdrawals', { fetch_all: true });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.count).toBe(120);
+      expect(body.pagination).toEqual({ pages_fetched: 2, truncated: false, next_marker: null });
+    });
+
+    it('should reject invalid created_after values', async () => {
+      const mcpHelper = new McpTestHelper(createTestServer().server);
+
+      const result = await mcpHelper.callTool('list_withdrawals', { created_after: 'last tuesday' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid date');
+    });
+
+    it('should reject a created_after that is not before created_before', async () => {
+      const mcpHelper = new McpTestHelper(createTestServer().server);
+
+      const result = await mcpHelper.callTool('list_fundings', {
+        created_after: '2025-01-02T00:00:00Z',
+        created_before: '2025-01-02T00:00:00Z',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('created_after must be before created_before');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+
+describe('place_order tool', () => {
+  let mcpHelper: McpTestHelper;
+  let posts: string[];
+
+  beforeEach(() => {
+    mcpHelper = new McpTestHelper(createTestServer({ enableWriteOperations: true }).server);
+    posts = [];
+    server.use(
+      http.post('https://api.bitso.com/api/v3/orders', async ({ request }) => {
+        posts.push(await request.text());
+        return HttpResponse.json({ success: true, payload: { oid: 'oid-new' } });
+      })
+    );
+  });
+
+  it('should return the unsigned request on a dry run without sending it', async () => {
+    const result = await mcpHelper.callTool('place_order', {
+      book: 'btc_mxn', side: 'buy', type: 'limit', major: '0.001', price: '1700000', origin_id: 'my-order-1', dry_run: true
+    });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.sent).toBe(false);
+    expect(posts).toEqual([]);
+    expect(body.request.url).toBe('https://api.bitso.com/api/v3/orders');
+    expect(JSON.parse(body.request.body)).toEqual({
+      book: 'btc_mxn', side: 'buy', type: 'limit', major: '0.001', price: '1700000', origin_id: 'my-order-1'
+    });
+    expect(body.request.string_to_sign).toBe(`<nonce>POST/api/v3/orders${body.request.body}`);
+    expect(body.request.headers.Authorization).toBe('Bitso <api_key>:<nonce>:<signature>');
+    expect(result.content[0].text).not.toContain('test-api-key');
+  });
+
+  it('should refuse dry runs when write operations are disabled', async () => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+
+    const result = await mcpHelper.callTool('place_order', {
+      book: 'btc_mxn', side: 'buy', type: 'limit', major: '0.001', price: '1700000', dry_run: true
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('write operations are disabled');
+  });
+
+  it('should estimate market buys at the ask with taker fees', async () => {
+    const result = await mcpHelper.callTool('place_order', {
+      book: 'btc_mxn', side: 'buy', type: 'market', minor: '1750.01', dry_run: true
+    });
+    const { estimate } = JSON.parse(result.content[0].text);
+
+    expect(estimate).toMatchObject({
+      price_source: 'ticker_ask',
+      reference_price: '1750010.00',
+      major_amount: '0.00100000',
+      notional: '1750.01',
+      fee_role: 'taker',
+      estimated_fee: '11.38',
+      estimated_total: '1761.39'
+    });
+  });
+
+  it('should reject a price off the tick size and an amount below the minimum', async () => {
+    const result = await mcpHelper.callTool('place_order', {
+      book: 'btc_mxn', side: 'sell', type: 'limit', major: '0.0000001', price: '1745005'
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not a multiple of the tick size 10');
+    expect(result.content[0].text).toContain('Amount 0.0000001 is below the minimum');
+    expect(posts).toEqual([]);
+  });
+
+  it('should reject market orders with a price', async () => {
+    const result = await mcpHelper.callTool('place_order', {
+      book: 'btc_mxn', side: 'buy', type: 'market', major: '0.001', price: '1700000'
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Validation error');
+  });
+
+  it('should refuse to place orders when write operations are disabled', async () => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+
+    const result = await mcpHelper.callTool('place_order', {
+      book: 'btc_mxn', side: 'buy', type: 'limit', major: '0.001', price: '1700000'
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('BITSO_ENABLE_WRITE_OPERATIONS');
+  });
+
+  it('should place the order only after confirmation', async () => {
+    const order = { book: 'btc_mxn', side: 'buy', type: 'limit', major: '0.001', price: '1700000', time_in_force: 'postonly' };
+
+    const preview = JSON.parse((await mcpHelper.callTool('place_order', order)).content[0].text);
+    expect(preview.confirmation_required).toBe(true);
+    expect(preview.estimate.fee_role).toBe('maker');
+    expect(posts).toEqual([]);
+
+    const result = await mcpHelper.callTool('place_order', { ...order, confirm_token: preview.confirm_token });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.oid).toBe('oid-new');
+    expect(posts.map(post => JSON.parse(post))).toEqual([order]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { LimiterStats, RequestLimiter } from '../../src/utils/rate-limit.js';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('RequestLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should cap outstanding tasks and start queued ones in order', async () => {
+    const queued: LimiterStats[] = [];
+    const limiter = new RequestLimiter({ maxConcurrent: 2, requestsPerMinute: 100 }, stats => queued.push(stats));
+    const tasks = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = tasks.map((task, index) => limiter.run(async () => {
+      started.push(index);
+      await task.promise;
+    }));
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1]);
+    expect(limiter.stats()).toEqual({ active: 2, queued: 2 });
+    expect(queued.map(stats => stats.queued)).toEqual([1, 2]);
+
+    tasks[1].resolve();
+    await vi.waitFor(() => expect(started).toEqual([0, 1, 2]));
+
+    tasks.forEach(task => task.resolve());
+    await Promise.all(runs);
+    expect(started).toEqual([0, 1, 2, 3]);
+    expect(limiter.stats()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('should hold tasks beyond the per-minute budget until the window moves on', async () => {
+    vi.useFakeTimers();
+    const limiter = new RequestLimiter({ maxConcurrent: 5, requestsPerMinute: 2 });
+    let completed = 0;
+
+    const runs = [1, 2, 3].map(() => limiter.run(async () => { completed++; }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(completed).toBe(2);
+    expect(limiter.stats().queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(completed).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await Promise.all(runs);
+    expect(completed).toBe(3);
+  });
+
+  it('should never start more than the limit in any rolling minute', async () => {
+    vi.useFakeTimers();
+    const limiter = new RequestLimiter({ maxConcurrent: 10, requestsPerMinute: 3 });
+    const startedAt: number[] = [];
+
+    const runs = Array.from({ length: 9 }, () => limiter.run(async () => { startedAt.push(Date.now()); }));
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(20_000);
+    await vi.advanceTimersByTimeAsync(3 * 60_000);
+    await Promise.all(runs);
+
+    expect(startedAt).toHaveLength(9);
+    startedAt.forEach(start => {
+      expect(startedAt.filter(other => other >= start && other < start + 60_000).length).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1, requestsPerMinute: 100 });
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+  });
+});
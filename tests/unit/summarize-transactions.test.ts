@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { Funding, Withdrawal } from '../../src/types.js';
+import { summarizeTransactions } from '../../src/utils/summary.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+
+const withdrawals: Withdrawal[] = [
+  { wid: 'w1', status: 'complete', created_at: '2025-01-02T10:00:00Z', currency: 'mxn', method: 'sp', amount: '100.10', details: {} },
+  { wid: 'w2', status: 'complete', created_at: '2025-01-02T09:00:00Z', currency: 'mxn', method: 'sp', amount: '200.20', details: {} },
+  { wid: 'w3', status: 'pending', created_at: '2025-01-01T09:00:00Z', currency: 'btc', method: 'btc', amount: '0.00000001', network: 'btc', details: {} },
+  { wid: 'w4', status: 'complete', created_at: '2024-12-31T09:00:00Z', currency: 'btc', method: 'btc', amount: '0.10000000', network: 'btc', details: {} },
+];
+
+const fundings: Funding[] = [
+  { fid: 'f1', status: 'complete', created_at: '2025-01-02T08:00:00Z', currency: 'mxn', method: 'sp', amount: '1000.00', details: {} },
+  { fid: 'f2', status: 'complete', created_at: '2025-01-01T08:00:00Z', currency: 'usdc', method: 'usdc', amount: '5.5', details: { network: 'polygon' } },
+];
+
+describe('summarize_transactions', () => {
+  describe('summarizeTransactions', () => {
+    it('should total per currency without floating-point drift', () => {
+      const summary = summarizeTransactions(withdrawals, ['currency']);
+
+      expect(summary.count).toBe(4);
+      expect(summary.totals).toEqual({ btc: '0.10000001', mxn: '300.30' });
+      expect(summary.groups).toHaveLength(2);
+    });
+
+    it('should group by several dimensions, including day and network', () => {
+      const summary = summarizeTransactions(withdrawals, ['day', 'network']);
+
+      expect(summary.groups[0]).toEqual({
+        key: { day: '2025-01-02', network: null },
+        count: 2,
+        totals: { mxn: '300.30' }
+      });
+      expect(summarizeTransactions(fundings, ['network']).groups.map(g => g.key.network)).toContain('polygon');
+    });
+  });
+
+  describe('tool', () => {
+    let mcpHelper: McpTestHelper;
+
+    beforeEach(() => {
+      mcpHelper = new McpTestHelper(createTestServer().server);
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', () => HttpResponse.json({ success: true, payload: withdrawals })),
+        http.get('https://api.bitso.com/api/v3/fundings', () => HttpResponse.json({ success: true, payload: fundings }))
+      );
+    });
+
+    it('should summarize both types within the date range', async () => {
+      const result = await mcpHelper.callTool('summarize_transactions', {
+        created_after: '2025-01-01T00:00:00Z',
+        group_by: ['currency', 'status']
+      });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.withdrawals.count).toBe(3);
+      expect(body.withdrawals.totals).toEqual({ btc: '0.00000001', mxn: '300.30' });
+      expect(body.withdrawals.truncated).toBe(false);
+      expect(body.fundings.count).toBe(2);
+    });
+
+    it('should filter fundings by currency client-side', async () => {
+      const result = await mcpHelper.callTool('summarize_transactions', { type: 'fundings', currency: 'MXN' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.withdrawals).toBeUndefined();
+      expect(body.fundings.totals).toEqual({ mxn: '1000.00' });
+    });
+
+    it('should reject an empty date range', async () => {
+      const result = await mcpHelper.callTool('summarize_transactions', { created_after: '-1d', created_before: '-7d' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('created_after must be before created_before');
+    });
+
+    it('should reject unknown group_by dimensions', async () => {
+      const result = await mcpHelper.callTool('summarize_transactions', { group_by: ['color'] });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+});
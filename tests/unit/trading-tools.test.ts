@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { ordersFixture } from '../mocks/handlers.js';
+
+describe('Trading tools', () => {
+  let mcpHelper: McpTestHelper;
+
+  beforeEach(() => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+  });
+
+  describe('list_user_trades', () => {
+    it('should pass book, sort and marker through to Bitso', async () => {
+      let requestUrl: URL | undefined;
+      server.use(
+        http.get('https://api.bitso.com/api/v3/user_trades', ({ request }) => {
+          requestUrl = new URL(request.url);
+        })
+      );
+
+      const result = await mcpHelper.callTool('list_user_trades', { book: 'BTC_MXN', sort: 'asc', marker: '51000' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(requestUrl?.searchParams.get('book')).toBe('btc_mxn');
+      expect(requestUrl?.searchParams.get('sort')).toBe('asc');
+      expect(requestUrl?.searchParams.get('marker')).toBe('51000');
+      expect(body.trades[0]).toMatchObject({ tid: 51757, oid: 'oid-2', fees_currency: 'mxn' });
+    });
+
+    it('should paginate using the trade ID as marker', async () => {
+      const markers: Array<string | null> = [];
+      server.use(
+        http.get('https://api.bitso.com/api/v3/user_trades', ({ request }) => {
+          const url = new URL(request.url);
+          markers.push(url.searchParams.get('marker'));
+          const page = url.searchParams.get('marker') ? [] : [{ tid: 10, oid: 'a' }, { tid: 9, oid: 'b' }];
+          return HttpResponse.json({ success: true, payload: page });
+        })
+      );
+
+      const result = await mcpHelper.callTool('list_user_trades', { max_records: 2 });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.count).toBe(2);
+      expect(body.pagination.truncated).toBe(true);
+      expect(body.pagination.next_marker).toBe('9');
+    });
+  });
+
+  describe('get_order_trades', () => {
+    it('should look up trades by oid', async () => {
+      const result = await mcpHelper.callTool('get_order_trades', { oid: 'oid-2' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.count).toBe(1);
+      expect(body.trades[0].tid).toBe(51757);
+    });
+
+    it('should look up trades by origin_id', async () => {
+      const result = await mcpHelper.callTool('get_order_trades', { origin_id: 'client-order-1' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.trades[0].oid).toBe('oid-1');
+    });
+
+    it('should require exactly one identifier', async () => {
+      const result = await mcpHelper.callTool('get_order_trades', { oid: 'a', origin_id: 'b' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('exactly one of oid or origin_id');
+    });
+  });
+
+  describe('lookup_orders', () => {
+    it('should find orders by oid and origin_id', async () => {
+      const result = await mcpHelper.callTool('lookup_orders', { oids: 'oid-3', origin_ids: 'client-order-1' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.count).toBe(2);
+      expect(body.orders.map((o: { status: string }) => o.status)).toEqual(['completed', 'open']);
+    });
+
+    it('should reject a call without identifiers', async () => {
+      const result = await mcpHelper.callTool('lookup_orders', {});
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('list_open_orders', () => {
+    it('should list open orders for a book', async () => {
+      const result = await mcpHelper.callTool('list_open_orders', { book: 'ETH_BTC' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.count).toBe(1);
+      expect(body.orders[0]).toMatchObject({ oid: 'oid-3', status: 'open' });
+    });
+
+    it('should report when there are no open orders', async () => {
+      const result = await mcpHelper.callTool('list_open_orders', { book: 'btc_mxn' });
+
+      expect(result.content[0].text).toBe('No open orders found with the specified criteria.');
+    });
+  });
+
+  describe('cancel_orders', () => {
+    let deletes: string[];
+
+    beforeEach(() => {
+      mcpHelper = new McpTestHelper(createTestServer({ enableWriteOperations: true }).server);
+      deletes = [];
+      server.events.on('request:start', ({ request }) => {
+        if (request.method === 'DELETE') {
+          deletes.push(new URL(request.url).pathname);
+        }
+      });
+    });
+
+    afterEach(() => {
+      server.events.removeAllListeners();
+    });
+
+    it('should refuse when write operations are disabled', async () => {
+      mcpHelper = new McpTestHelper(createTestServer().server);
+
+      const result = await mcpHelper.callTool('cancel_orders', { oids: 'oid-3' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('BITSO_ENABLE_WRITE_OPERATIONS');
+    });
+
+    it('should preview without cancelling, then cancel with the confirm token', async () => {
+      const preview = JSON.parse((await mcpHelper.callTool('cancel_orders', { book: 'eth_btc' })).content[0].text);
+
+      expect(preview.confirmation_required).toBe(true);
+      expect(preview.orders.map((o: { oid: string }) => o.oid)).toEqual(['oid-3']);
+      expect(deletes).toEqual([]);
+
+      const result = await mcpHelper.callTool('cancel_orders', { book: 'eth_btc', confirm_token: preview.confirm_token });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.cancelled).toEqual(['oid-3']);
+      expect(deletes).toEqual(['/api/v3/orders/oid-3']);
+    });
+
+    it('should page through every open order on the book and cancel them in batches', async () => {
+      const resting = Array.from({ length: 150 }, (_, i) => ({ ...ordersFixture[1], oid: `bulk${String(i).padStart(3, '0')}` }));
+      server.use(
+        http.get('https://api.bitso.com/api/v3/open_orders', ({ request }) => {
+          const url = new URL(request.url);
+          const marker = url.searchParams.get('marker');
+          const start = marker ? resting.findIndex(order => order.oid === marker) + 1 : 0;
+          return HttpResponse.json({ success: true, payload: resting.slice(start, start + Number(url.searchParams.get('limit'))) });
+        }),
+        http.delete('https://api.bitso.com/api/v3/orders/:oids', ({ params }) =>
+          HttpResponse.json({ success: true, payload: String(params.oids).split('-') })
+        )
+      );
+
+      const preview = JSON.parse((await mcpHelper.callTool('cancel_orders', { book: 'eth_btc' })).content[0].text);
+      expect(preview.count).toBe(150);
+
+      const result = await mcpHelper.callTool('cancel_orders', { book: 'eth_btc', confirm_token: preview.confirm_token });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body).toMatchObject({ requested: 150, cancelled_count: 150, all_cancelled: true });
+      expect(deletes).toHaveLength(2);
+    });
+
+    it('should only preview open orders and report the others', async () => {
+      const preview = JSON.parse((await mcpHelper.callTool('cancel_orders', { oids: 'oid-1,oid-3,oid-9' })).content[0].text);
+
+      expect(preview.orders.map((o: { oid: string }) => o.oid)).toEqual(['oid-3']);
+      expect(preview.not_open).toEqual([{ oid: 'oid-1', status: 'completed' }]);
+      expect(preview.unknown_oids).toEqual(['oid-9']);
+
+      const result = await mcpHelper.callTool('cancel_orders', { oids: 'oid-1,oid-3,oid-9', confirm_token: preview.confirm_token });
+
+      expect(JSON.parse(result.content[0].text).requested).toBe(1);
+      expect(deletes).toEqual(['/api/v3/orders/oid-3']);
+    });
+
+    it('should reject a token echoed with a different request', async () => {
+      const preview = JSON.parse((await mcpHelper.callTool('cancel_orders', { oids: 'oid-3' })).content[0].text);
+
+      const result = await mcpHelper.callTool('cancel_orders', { oids: 'oid-1,oid-3', confirm_token: preview.confirm_token });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('different request');
+      expect(deletes).toEqual([]);
+    });
+
+    it('should not accept the same token twice', async () => {
+      const preview = JSON.parse((await mcpHelper.callTool('cancel_orders', { oids: 'oid-3' })).content[0].text);
+      await mcpHelper.callTool('cancel_orders', { oids: 'oid-3', confirm_token: preview.confirm_token });
+
+      const result = await mcpHelper.callTool('cancel_orders', { oids: 'oid-3', confirm_token: preview.confirm_token });
+
+      expect(result.isError).toBe(true);
+      expect(deletes).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { Withdrawal } from '../../src/types.js';
+import { buildTimeline, StatusHistoryStore } from '../../src/utils/status-history.js';
+
+const withdrawal: Withdrawal = {
+  wid: 'wid-timeline',
+  status: 'pending',
+  created_at: '2026-01-10T12:00:00.000Z',
+  currency: 'mxn',
+  method: 'sp',
+  amount: '1500.00',
+  details: {},
+};
+
+describe('StatusHistoryStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'status-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record only status changes and persist them across instances', () => {
+    const file = path.join(dir, 'history.json');
+    const store = new StatusHistoryStore(file);
+
+    expect(store.record('withdrawal', [withdrawal], new Date('2026-01-10T12:01:00Z'))).toBe(1);
+    expect(store.record('withdrawal', [withdrawal], new Date('2026-01-10T12:05:00Z'))).toBe(0);
+    expect(store.record('withdrawal', [{ ...withdrawal, status: 'complete' }], new Date('2026-01-10T12:20:00Z'))).toBe(1);
+    store.flush();
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+
+    const reloaded = new StatusHistoryStore(file);
+    expect(reloaded.get('withdrawal', 'wid-timeline')?.observations).toEqual([
+      { status: 'pending', observed_at: '2026-01-10T12:01:00.000Z' },
+      { status: 'complete', observed_at: '2026-01-10T12:20:00.000Z' },
+    ]);
+    expect(reloaded.get('funding', 'wid-timeline')).toBeUndefined();
+  });
+
+  it('should move a corrupt file aside and start empty', () => {
+    const file = path.join(dir, 'history.json');
+    fs.writeFileSync(file, '{not json');
+
+    const store = new StatusHistoryStore(file);
+
+    expect(store.get('withdrawal', 'wid-timeline')).toBeUndefined();
+    expect(fs.existsSync(file)).toBe(false);
+    expect(fs.readdirSync(dir).filter(name => name.startsWith('history.json.corrupt-'))).toHaveLength(1);
+
+    store.record('withdrawal', [withdrawal], new Date('2026-01-10T12:01:00Z'));
+    store.flush();
+    expect(new StatusHistoryStore(file).get('withdrawal', 'wid-timeline')?.observations).toHaveLength(1);
+  });
+
+  it('should build transitions and the time from creation to a final status', () => {
+    const store = new StatusHistoryStore();
+    store.record('withdrawal', [withdrawal], new Date('2026-01-10T12:01:00Z'));
+    store.record('withdrawal', [{ ...withdrawal, status: 'processing' }], new Date('2026-01-10T12:10:00Z'));
+    store.record('withdrawal', [{ ...withdrawal, status: 'complete' }], new Date('2026-01-10T12:30:00Z'));
+
+    const timeline = buildTimeline(store.get('withdrawal', 'wid-timeline')!);
+
+    expect(timeline.current_status).toBe('complete');
+    expect(timeline.final_status).toBe('complete');
+    expect(timeline.seconds_to_final).toBe(1800);
+    expect(timeline.transitions.map(t => [t.from, t.to, t.seconds_since_created])).toEqual([
+      [null, 'pending', 60],
+      ['pending', 'processing', 600],
+      ['processing', 'complete', 1800],
+    ]);
+  });
+});
+
+describe('get_transaction_timeline tool', () => {
+  let mcpHelper: McpTestHelper;
+  let status: string;
+
+  beforeEach(() => {
+    status = 'pending';
+    mcpHelper = new McpTestHelper(createTestServer().server);
+    server.use(
+      http.get('https://api.bitso.com/api/v3/withdrawals/:wid', () =>
+        HttpResponse.json({ success: true, payload: { ...withdrawal, status } })
+      )
+    );
+  });
+
+  it('should record the status seen on refresh and report it as in flight', async () => {
+    const result = await mcpHelper.callTool('get_transaction_timeline', { wid: 'wid-timeline' });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.timeline).toMatchObject({
+      type: 'withdrawal',
+      id: 'wid-timeline',
+      current_status: 'pending',
+      final_status: null,
+      seconds_to_final: null,
+    });
+    expect(body.timeline.observations).toHaveLength(1);
+  });
+
+  it('should add statuses observed by other tools', async () => {
+    await mcpHelper.callTool('get_transaction_timeline', { wid: 'wid-timeline' });
+
+    status = 'complete';
+    server.use(
+      http.get('https://api.bitso.com/api/v3/withdrawals', () =>
+        HttpResponse.json({ success: true, payload: [{ ...withdrawal, status }] })
+      )
+    );
+    await mcpHelper.callTool('list_withdrawals', {});
+
+    const result = await mcpHelper.callTool('get_transaction_timeline', { wid: 'wid-timeline', refresh: false });
+    const body = JSON.parse(result.content[0].text);
+
+    expect(body.timeline.transitions.map((t: { to: string }) => t.to)).toEqual(['pending', 'complete']);
+    expect(body.timeline.final_status).toBe('complete');
+    expect(body.timeline.seconds_to_final).toBeGreaterThan(0);
+  });
+
+  it('should report when nothing has been observed without refreshing', async () => {
+    const result = await mcpHelper.callTool('get_transaction_timeline', { fid: 'fid-unknown', refresh: false });
+
+    expect(result.content[0].text).toBe('No status history recorded for funding fid-unknown.');
+  });
+
+  it('should require exactly one of wid or fid', async () => {
+    const result = await mcpHelper.callTool('get_transaction_timeline', { wid: 'a', fid: 'b' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Provide exactly one of wid or fid');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { buildRateGraph, findConversionRate } from '../../src/utils/valuation.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { tickersFixture } from '../mocks/handlers.js';
+import { server } from '../mocks/server.js';
+
+describe('Valuation', () => {
+  describe('findConversionRate', () => {
+    const graph = buildRateGraph(tickersFixture);
+
+    it('should use a direct book', () => {
+      const conversion = findConversionRate(graph, 'btc', 'mxn');
+
+      expect(conversion?.rate.toString()).toBe('1750000');
+      expect(conversion?.route).toEqual(['btc_mxn']);
+    });
+
+    it('should invert a book quoted the other way', () => {
+      const conversion = findConversionRate(graph, 'mxn', 'usd');
+
+      expect(conversion?.rate.toFixed(10)).toBe('0.0487804878');
+      expect(conversion?.route).toEqual(['usd_mxn']);
+    });
+
+    it('should route through an intermediate book', () => {
+      const conversion = findConversionRate(graph, 'eth', 'mxn');
+
+      expect(conversion?.rate.toString()).toBe('61250');
+      expect(conversion?.route).toEqual(['eth_btc', 'btc_mxn']);
+    });
+
+    it('should return null when no route exists', () => {
+      expect(findConversionRate(graph, 'doge', 'mxn')).toBeNull();
+    });
+  });
+
+  describe('quote_currency on tools', () => {
+    let mcpHelper: McpTestHelper;
+
+    beforeEach(() => {
+      mcpHelper = new McpTestHelper(createTestServer().server);
+      const withdrawals = [
+        { wid: 'w1', status: 'complete', created_at: '2025-01-15T10:00:00Z', currency: 'btc', method: 'btc', amount: '0.01000000', details: {} },
+        { wid: 'w2', status: 'complete', created_at: '2025-01-15T09:00:00Z', currency: 'mxn', method: 'sp', amount: '250.00', details: {} },
+        { wid: 'w3', status: 'complete', created_at: '2025-01-15T08:00:00Z', currency: 'doge', method: 'doge', amount: '5', details: {} },
+      ];
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawals', () => HttpResponse.json({ success: true, payload: withdrawals })),
+        http.get('https://api.bitso.com/api/v3/withdrawals/:wid', () => HttpResponse.json({ success: true, payload: withdrawals[0] }))
+      );
+    });
+
+    it('should value each withdrawal and report a grand total', async () => {
+      const result = await mcpHelper.callTool('list_withdrawals', { quote_currency: 'MXN' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.withdrawals[0].valuation).toEqual({
+        quote_currency: 'mxn',
+        value: '17500.00',
+        rate: '1750000',
+        route: ['btc_mxn']
+      });
+      expect(body.withdrawals[2].valuation).toBeNull();
+      expect(body.valuation.total).toBe('17750.00');
+      expect(body.valuation.unpriced_currencies).toEqual(['doge']);
+      expect(body.valuation.price_source.as_of).toBe('2025-01-15T12:00:00+00:00');
+    });
+
+    it('should add a labelled value line to get_withdrawal', async () => {
+      const result = await mcpHelper.callTool('get_withdrawal', { wid: 'w1', quote_currency: 'usd' });
+
+      expect(result.content[0].text).toContain('Value (USD): 853.66 at rate');
+      expect(result.content[0].text).toContain('via btc_mxn -> usd_mxn');
+      expect(result.content[0].text).toContain('Bitso public ticker');
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { AccountRegistry } from '../../src/accounts.js';
+import { Withdrawal } from '../../src/types.js';
+import { TransactionWatcher, WatchEvent } from '../../src/utils/watches.js';
+
+const withdrawal: Withdrawal = {
+  wid: 'wid-watched',
+  status: 'pending',
+  created_at: '2026-01-10T12:00:00.000Z',
+  currency: 'mxn',
+  method: 'sp',
+  amount: '1500.00',
+  origin_id: 'payout-7',
+  details: {},
+};
+
+describe('TransactionWatcher', () => {
+  let accounts: AccountRegistry;
+  let status: string;
+  let withdrawalExists: boolean;
+  let requests: number;
+
+  beforeEach(() => {
+    accounts = createTestServer().accounts;
+    status = 'pending';
+    withdrawalExists = true;
+    requests = 0;
+    server.use(
+      http.get('https://api.bitso.com/api/v3/withdrawals/:wid', () => {
+        requests++;
+        return HttpResponse.json({ success: true, payload: { ...withdrawal, status } });
+      }),
+      http.get('https://api.bitso.com/api/v3/withdrawals', () =>
+        HttpResponse.json({ success: true, payload: withdrawalExists ? [{ ...withdrawal, status }] : [] })
+      )
+    );
+  });
+
+  it('should notify on a status change, bypassing the cache, and drop the watch once final', async () => {
+    const notify = vi.fn<(event: WatchEvent) => void>();
+    const watcher = new TransactionWatcher(accounts, { pollIntervalMs: 60_000, notify });
+
+    const result = await watcher.watch([{ account: 'default', kind: 'wid', value: 'wid-watched' }], 60);
+    expect(result.watching[0]).toMatchObject({ watch_id: 'default:wid:wid-watched', status: 'pending' });
+
+    await watcher.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    status = 'complete';
+    await watcher.poll();
+
+    expect(requests).toBe(3);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify.mock.calls[0][0]).toMatchObject({
+      event: 'status_changed',
+      previous_status: 'pending',
+      final: true,
+      watch: { status: 'complete', resource_uri: 'bitso://default/withdrawals/wid-watched' },
+    });
+    expect(watcher.list()).toEqual([]);
+  });
+
+  it('should expire watches after their ttl', async () => {
+    let now = new Date('2026-01-10T12:00:00Z');
+    const notify = vi.fn<(event: WatchEvent) => void>();
+    const watcher = new TransactionWatcher(accounts, { pollIntervalMs: 60_000, notify, now: () => now });
+
+    await watcher.watch([{ account: 'default', kind: 'wid', value: 'wid-watched' }], 30);
+    now = new Date('2026-01-10T12:31:00Z');
+    await watcher.poll();
+
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ event: 'expired', final: false }));
+    expect(watcher.list()).toEqual([]);
+  });
+
+  it('should leave every watch unchanged when one target cannot be fetched', async () => {
+    let now = new Date('2026-01-10T12:00:00Z');
+    server.use(
+      http.get('https://api.bitso.com/api/v3/withdrawals/wid-missing', () =>
+        HttpResponse.json({ success: false, error: { code: '0404', message: 'Not found' } }, { status: 404 })
+      )
+    );
+    const watcher = new TransactionWatcher(accounts, { pollIntervalMs: 60_000, notify: vi.fn(), now: () => now });
+    await watcher.watch([{ account: 'default', kind: 'wid', value: 'wid-watched' }], 30);
+
+    now = new Date('2026-01-10T12:10:00Z');
+    await expect(watcher.watch([
+      { account: 'default', kind: 'wid', value: 'wid-watched' },
+      { account: 'default', kind: 'origin_id', value: 'payout-7' },
+      { account: 'default', kind: 'wid', value: 'wid-missing' },
+    ], 60)).rejects.toThrow();
+
+    expect(watcher.list()).toEqual([
+      expect.objectContaining({ watch_id: 'default:wid:wid-watched', expires_at: '2026-01-10T12:30:00.000Z' }),
+    ]);
+    watcher.stop();
+  });
+
+  it('should fetch duplicate targets once and enforce the watch limit across concurrent calls', async () => {
+    const watcher = new TransactionWatcher(accounts, { pollIntervalMs: 60_000, notify: vi.fn() });
+    const target = { account: 'default', kind: 'wid' as const, value: 'wid-watched' };
+
+    const result = await watcher.watch([target, target], 60);
+    expect(result.watching).toHaveLength(1);
+    expect(requests).toBe(1);
+
+    const batch = (prefix: string) => Array.from({ length: 60 }, (_, index) => ({ ...target, value: `${prefix}-${index}` }));
+    const outcomes = await Promise.allSettled([watcher.watch(batch('first'), 60), watcher.watch(batch('second'), 60)]);
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+    expect(watcher.list()).toHaveLength(61);
+    watcher.stop();
+  });
+
+  it('should wait for an origin_id withdrawal to appear and resolve its wid', async () => {
+    withdrawalExists = false;
+    const notify = vi.fn<(event: WatchEvent) => void>();
+    const watcher = new TransactionWatcher(accounts, { pollIntervalMs: 60_000, notify });
+
+    const result = await watcher.watch([{ account: 'default', kind: 'origin_id', value: 'payout-7' }], 60);
+    expect(result.watching[0]).toMatchObject({ status: null, wid: null });
+
+    withdrawalExists = true;
+    await watcher.poll();
+
+    expect(notify.mock.calls[0][0]).toMatchObject({
+      event: 'status_changed',
+      previous_status: null,
+      final: false,
+      watch: { watch_id: 'default:origin_id:payout-7', wid: 'wid-watched', status: 'pending' },
+    });
+    watcher.stop();
+  });
+});
+
+describe('watch tools', () => {
+  let mcpHelper: McpTestHelper;
+  let status: string;
+
+  beforeEach(() => {
+    status = 'pending';
+    server.use(
+      http.get('https://api.bitso.com/api/v3/withdrawals/:wid', ({ params }) =>
+        HttpResponse.json({
+          success: true,
+          payload: { ...withdrawal, wid: params.wid, status: params.wid === 'wid-done' ? 'complete' : status },
+        })
+      )
+    );
+    mcpHelper = new McpTestHelper(createTestServer().server);
+  });
+
+  it('should watch, list and unwatch transactions', async () => {
+    const watched = JSON.parse((await mcpHelper.callTool('watch_transactions', { wids: 'wid-watched, wid-done' })).content[0].text);
+
+    expect(watched.watching.map((w: { watch_id: string }) => w.watch_id)).toEqual(['default:wid:wid-watched']);
+    expect(watched.already_final).toMatchObject([{ watch_id: 'default:wid:wid-done', status: 'complete' }]);
+
+    const listed = JSON.parse((await mcpHelper.callTool('list_watches')).content[0].text);
+    expect(listed.count).toBe(1);
+
+    const removed = JSON.parse((await mcpHelper.callTool('unwatch', { watch_ids: 'default:wid:wid-watched,default:wid:other' })).content[0].text);
+    expect(removed).toMatchObject({ removed: ['default:wid:wid-watched'], not_found: ['default:wid:other'] });
+
+    const empty = await mcpHelper.callTool('list_watches');
+    expect(empty.content[0].text).toBe('No transactions are being watched.');
+  });
+
+  it('should require something to watch', async () => {
+    const result = await mcpHelper.callTool('watch_transactions', { wids: ' , ' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Provide at least one wid, fid or origin_id');
+  });
+
+  it('should send logging and resource-updated notifications to the connected client', async () => {
+    const { server: mcpServer } = createTestServer({ watchPollIntervalSeconds: 1 });
+    mcpHelper = new McpTestHelper(mcpServer);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const mcpClient = new Client({ name: 'watch-test', version: '1.0.0' });
+    const logged = new Promise<unknown>(resolve =>
+      mcpClient.setNotificationHandler(LoggingMessageNotificationSchema, notification => resolve(notification.params.data))
+    );
+    const updated = new Promise<string>(resolve =>
+      mcpClient.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri))
+    );
+    await mcpServer.connect(serverTransport);
+    await mcpClient.connect(clientTransport);
+
+    await mcpHelper.callTool('watch_transactions', { wids: 'wid-watched' });
+    status = 'complete';
+
+    expect(await logged).toMatchObject({ event: 'status_changed', previous_status: 'pending', final: true });
+    expect(await updated).toBe('bitso://default/withdrawals/wid-watched');
+
+    const resource = await mcpClient.readResource({ uri: 'bitso://default/withdrawals/wid-watched' });
+    expect(JSON.parse(String(resource.contents[0].text))).toMatchObject({ wid: 'wid-watched', status: 'complete' });
+
+    await mcpClient.close();
+  });
+});
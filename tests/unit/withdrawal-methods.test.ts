@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { McpTestHelper } from '../helpers/mcp-test-helper.js';
+import { createTestServer } from '../helpers/test-server-factory.js';
+import { server } from '../mocks/server.js';
+import { suggestClosest } from '../../src/utils/withdrawal-catalog.js';
+
+describe('Withdrawal methods catalog', () => {
+  let mcpHelper: McpTestHelper;
+
+  beforeEach(() => {
+    mcpHelper = new McpTestHelper(createTestServer().server);
+  });
+
+  describe('get_withdrawal_methods', () => {
+    it('should list methods for every currency with a withdrawal fee', async () => {
+      const result = await mcpHelper.callTool('get_withdrawal_methods', {});
+      const body = JSON.parse(result.content[0].text);
+
+      expect(Object.keys(body.currencies)).toEqual(['btc', 'eth', 'mxn']);
+      expect(body.currencies.btc[0]).toMatchObject({ network: 'btc', minimum: '0.0001', fee: '0.00005', required_fields: ['address'] });
+      // A per-method fee wins over the per-currency one
+      expect(body.currencies.mxn[0]).toMatchObject({ method: 'sp', fee: '0.00' });
+    });
+
+    it('should list the currencies whose methods failed to load', async () => {
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawal_methods/eth', () => HttpResponse.json({ success: false }, { status: 500 }))
+      );
+
+      const result = await mcpHelper.callTool('get_withdrawal_methods', {});
+      const body = JSON.parse(result.content[0].text);
+
+      expect(Object.keys(body.currencies)).toEqual(['btc', 'mxn']);
+      expect(body.unavailable_currencies).toEqual(['eth']);
+    });
+
+    it('should limit the catalog to one currency', async () => {
+      const result = await mcpHelper.callTool('get_withdrawal_methods', { currency: 'ETH' });
+      const body = JSON.parse(result.content[0].text);
+
+      expect(body.count).toBe(1);
+      expect(body.currencies.eth[0].protocol).toBe('erc20');
+    });
+  });
+
+  describe('list_withdrawals filters', () => {
+    it('should suggest close matches for a mistyped method', async () => {
+      const result = await mcpHelper.callTool('list_withdrawals', { method: 'spie' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Unknown method 'spie'. Did you mean: sp, spei?");
+    });
+
+    it('should check methods against the currency when one is given', async () => {
+      const result = await mcpHelper.callTool('list_withdrawals', { currency: 'btc', method: 'sp' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Unknown method 'sp'");
+    });
+
+    it('should suggest close matches for a mistyped status', async () => {
+      const result = await mcpHelper.callTool('list_withdrawals', { status: 'complet' });
+
+      expect(result.content[0].text).toContain('Did you mean: complete?');
+    });
+
+    it('should accept known methods and networks', async () => {
+      const result = await mcpHelper.callTool('list_withdrawals', { method: 'SPEI', status: 'complete' });
+
+      expect(result.isError).toBeUndefined();
+    });
+
+    it('should not block listing when the catalog is unavailable, but say so', async () => {
+      server.use(
+        http.get('https://api.bitso.com/api/v3/fees', () => HttpResponse.json({ success: false }, { status: 401 }))
+      );
+
+      const result = await mcpHelper.callTool('list_withdrawals', { method: 'anything' });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain("Method 'anything' was not validated");
+    });
+
+    it('should validate against the currencies that loaded', async () => {
+      server.use(
+        http.get('https://api.bitso.com/api/v3/withdrawal_methods/eth', () => HttpResponse.json({ success: false }, { status: 500 }))
+      );
+
+      const known = await mcpHelper.callTool('list_withdrawals', { method: 'sp' });
+      expect(known.content[0].text).not.toContain('not validated');
+
+      const unknown = await mcpHelper.callTool('list_withdrawals', { method: 'anything' });
+      expect(unknown.isError).toBeUndefined();
+      expect(unknown.content[0].text).toContain('withdrawal methods could not be loaded for eth');
+    });
+  });
+
+  describe('suggestClosest', () => {
+    it('should rank prefix matches and small edit distances', () => {
+      expect(suggestClosest('pendng', ['pending', 'processing', 'complete', 'failed'])).toEqual(['pending']);
+      expect(suggestClosest('xyz', ['pending', 'complete'])).toEqual([]);
+    });
+  });
+});